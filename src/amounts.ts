@@ -0,0 +1,46 @@
+// 代币数量统一使用整数（最小单位）计算，只在展示时转换为小数字符串，避免浮点精度丢失
+
+// 把最小单位的整数转换为精确的小数字符串，去掉末尾的 0，例如 (1500000000n, 9) → "1.5"
+export function formatUnits(raw: bigint | string, decimals: number): string {
+  const value = BigInt(raw);
+  const negative = value < 0n;
+  const digits = (negative ? -value : value).toString().padStart(decimals + 1, '0');
+
+  const integer = digits.slice(0, digits.length - decimals);
+  const fraction = digits.slice(digits.length - decimals).replace(/0+$/, '');
+  return `${negative ? '-' : ''}${integer}${fraction ? `.${fraction}` : ''}`;
+}
+
+export function absBigInt(value: bigint): bigint {
+  return value < 0n ? -value : value;
+}
+
+// formatUnits 的逆运算：把小数字符串转换为最小单位的整数，超出精度的部分截断
+export function parseUnits(value: string, decimals: number): bigint {
+  const match = /^(-?)(\d*)(?:\.(\d*))?$/.exec(value.trim());
+  if (!match || (match[2] === '' && !match[3])) {
+    throw new Error(`无效的数量: ${value}`);
+  }
+  const fraction = (match[3] || '').slice(0, decimals).padEnd(decimals, '0');
+  const raw = BigInt(`${match[2] || '0'}${fraction}`);
+  return match[1] ? -raw : raw;
+}
+
+// 价格以 PRICE_DECIMALS 位小数的整数表示，比较和聚合时不经过浮点运算
+export const PRICE_DECIMALS = 18;
+
+// 每 1 个 base 代币折合多少 quote 代币；base 数量为 0 时没有价格
+export function calculatePrice(
+  baseAmount: bigint,
+  baseDecimals: number,
+  quoteAmount: bigint,
+  quoteDecimals: number
+): bigint | null {
+  if (baseAmount === 0n) {
+    return null;
+  }
+  return (
+    (quoteAmount * 10n ** BigInt(baseDecimals + PRICE_DECIMALS)) /
+    (baseAmount * 10n ** BigInt(quoteDecimals))
+  );
+}
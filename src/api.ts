@@ -0,0 +1,442 @@
+import * as http from 'http';
+import { isCandleInterval, orientPair, pairMarket } from './candles';
+import { EventBus, EventFilter, IndexerEvent, isIndexerEventType, matchesFilter } from './events';
+import { MetricsRegistry } from './metrics';
+import { RpcEndpointStats } from './rpc';
+import {
+  CandleQuery,
+  LiquidityQuery,
+  PoolQuery,
+  SqliteStorage,
+  SwapCursor,
+  SwapQuery,
+  WalletActivityCursor,
+  WalletActivityQuery,
+} from './storage';
+
+export interface IndexerStatus {
+  // 已连续处理完成的最高区块（检查点）
+  lastProcessedSlot: number | null;
+  // 已处理完成的最高区块
+  currentSlot: number | null;
+  // 节点最新区块
+  chainSlot: number | null;
+  // 落后节点的区块数
+  lag: number | null;
+  // 各 RPC 节点的请求统计和健康度
+  rpc: RpcEndpointStats[];
+}
+
+export interface HealthStatus {
+  // 索引没有停滞，否则 /healthz 返回 503
+  live: boolean;
+  // 已追上节点最新区块，否则 /readyz 返回 503
+  ready: boolean;
+  lag: number | null;
+  lastProgressAt: string | null;
+  connectionHealthy: boolean;
+}
+
+const DEFAULT_LIMIT = 100;
+const MAX_LIMIT = 1000;
+// SSE 连接的心跳间隔，避免代理因空闲断开连接
+const STREAM_HEARTBEAT_INTERVAL = 15000;
+
+class HttpError extends Error {
+  constructor(public statusCode: number, message: string) {
+    super(message);
+  }
+}
+
+// 只读查询接口：
+//   GET /swaps?mint=&pool=&trader=&fromSlot=&toSlot=&fromTime=&toTime=&status=&limit=&cursor=
+//   GET /liquidity?pool=&owner=&positionMint=&lpMint=&type=&fromSlot=&toSlot=&status=&limit=&cursor=
+//   GET /candles?pool=|base=&quote=&interval=&fromTime=&toTime=&limit=
+//   GET /pools?mint=&protocol=&limit=
+//   GET /pools/:address
+//   GET /transactions/:signature
+//   GET /wallets/activity?wallet=&watchlist=&type=&fromSlot=&toSlot=&status=&limit=&cursor=
+//   GET /wallets/:address/positions
+//   GET /stream?types=&mint=&pool=&wallet=
+//   GET /webhooks/dead-letters?limit=
+//   GET /status
+//   GET /metrics
+//   GET /healthz
+//   GET /readyz
+export class ApiServer {
+  private server: http.Server;
+  // 当前的 SSE 连接，关闭服务时主动结束
+  private streams = new Set<http.ServerResponse>();
+
+  constructor(
+    private storage: SqliteStorage,
+    private getStatus: () => IndexerStatus,
+    private events: EventBus,
+    private metrics: MetricsRegistry,
+    private getHealth: () => HealthStatus
+  ) {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+  }
+
+  start(port: number): Promise<void> {
+    // 端口被占用（EADDRINUSE）等监听失败时拒绝，由调用方退出
+    return new Promise((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(port, () => {
+        this.server.off('error', reject);
+        console.log(`查询接口已启动: http://localhost:${port}`);
+        resolve();
+      });
+    });
+  }
+
+  stop(): Promise<void> {
+    this.streams.forEach(res => res.end());
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    try {
+      if (req.method !== 'GET') {
+        throw new HttpError(405, 'Method not allowed');
+      }
+
+      const url = new URL(req.url || '/', 'http://localhost');
+      const segments = url.pathname.split('/').filter(Boolean);
+
+      if (segments.length === 1 && segments[0] === 'swaps') {
+        const result = this.storage.querySwaps(parseSwapQuery(url.searchParams));
+        return sendJson(res, 200, {
+          swaps: result.swaps,
+          nextCursor: result.nextCursor ? encodeCursor(result.nextCursor) : null,
+        });
+      }
+
+      if (segments.length === 1 && segments[0] === 'liquidity') {
+        const result = this.storage.queryLiquidityEvents(parseLiquidityQuery(url.searchParams));
+        return sendJson(res, 200, {
+          events: result.events,
+          nextCursor: result.nextCursor ? encodeCursor(result.nextCursor) : null,
+        });
+      }
+
+      if (segments.length === 1 && segments[0] === 'candles') {
+        return sendJson(res, 200, {
+          candles: this.storage.queryCandles(parseCandleQuery(url.searchParams)),
+        });
+      }
+
+      if (segments.length === 1 && segments[0] === 'pools') {
+        return sendJson(res, 200, {
+          pools: this.storage.queryPools(parsePoolQuery(url.searchParams)),
+        });
+      }
+
+      if (segments.length === 2 && segments[0] === 'pools') {
+        const pool = this.storage.getPool(segments[1]);
+        if (!pool) {
+          throw new HttpError(404, `Pool ${segments[1]} not found`);
+        }
+        return sendJson(res, 200, pool);
+      }
+
+      if (segments.length === 2 && segments[0] === 'transactions') {
+        const transaction = this.storage.getTransaction(segments[1]);
+        if (!transaction) {
+          throw new HttpError(404, `Transaction ${segments[1]} not found`);
+        }
+        return sendJson(res, 200, transaction);
+      }
+
+      if (segments.length === 2 && segments[0] === 'wallets' && segments[1] === 'activity') {
+        const result = this.storage.queryWalletActivity(parseWalletActivityQuery(url.searchParams));
+        return sendJson(res, 200, {
+          activity: result.activity,
+          nextCursor: result.nextCursor ? encodeCursor(result.nextCursor) : null,
+        });
+      }
+
+      if (segments.length === 3 && segments[0] === 'wallets' && segments[2] === 'positions') {
+        return sendJson(res, 200, { positions: this.storage.getWalletPositions(segments[1]) });
+      }
+
+      if (segments.length === 1 && segments[0] === 'stream') {
+        return this.stream(req, res, parseEventFilter(url.searchParams));
+      }
+
+      if (segments.length === 2 && segments[0] === 'webhooks' && segments[1] === 'dead-letters') {
+        const limit = parseInteger(url.searchParams, 'limit') ?? DEFAULT_LIMIT;
+        if (limit <= 0 || limit > MAX_LIMIT) {
+          throw new HttpError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+        }
+        return sendJson(res, 200, { deadLetters: this.storage.queryWebhookDeadLetters(limit) });
+      }
+
+      if (segments.length === 1 && segments[0] === 'status') {
+        return sendJson(res, 200, this.getStatus());
+      }
+
+      if (segments.length === 1 && segments[0] === 'metrics') {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        return res.end(this.metrics.render());
+      }
+
+      if (segments.length === 1 && (segments[0] === 'healthz' || segments[0] === 'readyz')) {
+        const health = this.getHealth();
+        const ok = segments[0] === 'healthz' ? health.live : health.ready;
+        return sendJson(res, ok ? 200 : 503, { status: ok ? 'ok' : 'unavailable', ...health });
+      }
+
+      throw new HttpError(404, 'Not found');
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return sendJson(res, error.statusCode, { error: error.message });
+      }
+      console.error('查询接口错误:', error instanceof Error ? error.message : String(error));
+      sendJson(res, 500, { error: 'Internal server error' });
+    }
+  }
+
+  // Server-Sent Events：连接建立后推送新写入区块中符合过滤条件的事件，不回放历史事件
+  private stream(req: http.IncomingMessage, res: http.ServerResponse, filter: EventFilter) {
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+
+    const unsubscribe = this.events.subscribe(events => {
+      for (const event of events) {
+        if (matchesFilter(event, filter)) {
+          res.write(formatServerSentEvent(event));
+        }
+      }
+    });
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), STREAM_HEARTBEAT_INTERVAL);
+    this.streams.add(res);
+
+    req.on('close', () => {
+      unsubscribe();
+      clearInterval(heartbeat);
+      this.streams.delete(res);
+    });
+  }
+}
+
+function formatServerSentEvent(event: IndexerEvent): string {
+  return `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+// 每个参数可以是逗号分隔的多个值
+function parseEventFilter(params: URLSearchParams): EventFilter {
+  const list = (name: string) => {
+    const value = params.get(name);
+    return value ? value.split(',').map(item => item.trim()).filter(Boolean) : undefined;
+  };
+
+  const types = list('types');
+  const invalidType = types?.find(type => !isIndexerEventType(type));
+  if (invalidType) {
+    throw new HttpError(400, 'types must be transaction, swap, liquidity or retraction');
+  }
+  return {
+    types: types as EventFilter['types'],
+    mints: list('mint'),
+    pools: list('pool'),
+    wallets: list('wallet'),
+  };
+}
+
+function parseSwapQuery(params: URLSearchParams): SwapQuery {
+  const limit = parseInteger(params, 'limit') ?? DEFAULT_LIMIT;
+  if (limit <= 0 || limit > MAX_LIMIT) {
+    throw new HttpError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  const status = params.get('status') || undefined;
+  if (status !== undefined && status !== 'provisional' && status !== 'final') {
+    throw new HttpError(400, 'status must be provisional or final');
+  }
+
+  const cursor = params.get('cursor');
+  return {
+    mint: params.get('mint') || undefined,
+    pool: params.get('pool') || undefined,
+    trader: params.get('trader') || undefined,
+    fromSlot: parseInteger(params, 'fromSlot'),
+    toSlot: parseInteger(params, 'toSlot'),
+    fromTime: parseTime(params, 'fromTime'),
+    toTime: parseTime(params, 'toTime'),
+    status,
+    limit,
+    cursor: cursor ? decodeCursor(cursor) : undefined,
+  };
+}
+
+function parseLiquidityQuery(params: URLSearchParams): LiquidityQuery {
+  const limit = parseInteger(params, 'limit') ?? DEFAULT_LIMIT;
+  if (limit <= 0 || limit > MAX_LIMIT) {
+    throw new HttpError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  const status = params.get('status') || undefined;
+  if (status !== undefined && status !== 'provisional' && status !== 'final') {
+    throw new HttpError(400, 'status must be provisional or final');
+  }
+
+  const cursor = params.get('cursor');
+  return {
+    pool: params.get('pool') || undefined,
+    owner: params.get('owner') || undefined,
+    positionMint: params.get('positionMint') || undefined,
+    lpMint: params.get('lpMint') || undefined,
+    type: params.get('type') || undefined,
+    fromSlot: parseInteger(params, 'fromSlot'),
+    toSlot: parseInteger(params, 'toSlot'),
+    status,
+    limit,
+    cursor: cursor ? decodeCursor(cursor) : undefined,
+  };
+}
+
+function parseWalletActivityQuery(params: URLSearchParams): WalletActivityQuery {
+  const limit = parseInteger(params, 'limit') ?? DEFAULT_LIMIT;
+  if (limit <= 0 || limit > MAX_LIMIT) {
+    throw new HttpError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  const status = params.get('status') || undefined;
+  if (status !== undefined && status !== 'provisional' && status !== 'final') {
+    throw new HttpError(400, 'status must be provisional or final');
+  }
+  const type = params.get('type') || undefined;
+  if (type !== undefined && type !== 'swap' && type !== 'liquidity' && type !== 'transfer') {
+    throw new HttpError(400, 'type must be swap, liquidity or transfer');
+  }
+
+  const cursor = params.get('cursor');
+  return {
+    wallet: params.get('wallet') || undefined,
+    watchlist: params.get('watchlist') || undefined,
+    type,
+    fromSlot: parseInteger(params, 'fromSlot'),
+    toSlot: parseInteger(params, 'toSlot'),
+    status,
+    limit,
+    cursor: cursor ? decodeWalletActivityCursor(cursor) : undefined,
+  };
+}
+
+// pool 查询单个池子；base + quote 查询交易对，交易对方向由服务端统一确定，见返回的 baseMint / quoteMint
+function parseCandleQuery(params: URLSearchParams): CandleQuery {
+  const limit = parseInteger(params, 'limit') ?? DEFAULT_LIMIT;
+  if (limit <= 0 || limit > MAX_LIMIT) {
+    throw new HttpError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+
+  const interval = params.get('interval') || '1m';
+  if (!isCandleInterval(interval)) {
+    throw new HttpError(400, 'interval must be 1m, 5m, 1h or 1d');
+  }
+
+  const pool = params.get('pool');
+  const base = params.get('base');
+  const quote = params.get('quote');
+  let market: Pick<CandleQuery, 'marketType' | 'market'>;
+  if (pool && !base && !quote) {
+    market = { marketType: 'pool', market: pool };
+  } else if (!pool && base && quote) {
+    const pair = orientPair(base, quote);
+    market = { marketType: 'pair', market: pairMarket(pair.baseMint, pair.quoteMint) };
+  } else {
+    throw new HttpError(400, 'either pool or both base and quote are required');
+  }
+
+  return {
+    ...market,
+    interval,
+    fromTime: parseTime(params, 'fromTime'),
+    toTime: parseTime(params, 'toTime'),
+    limit,
+  };
+}
+
+function parsePoolQuery(params: URLSearchParams): PoolQuery {
+  const limit = parseInteger(params, 'limit') ?? DEFAULT_LIMIT;
+  if (limit <= 0 || limit > MAX_LIMIT) {
+    throw new HttpError(400, `limit must be between 1 and ${MAX_LIMIT}`);
+  }
+  return {
+    mint: params.get('mint') || undefined,
+    protocol: params.get('protocol') || undefined,
+    limit,
+  };
+}
+
+function parseInteger(params: URLSearchParams, name: string): number | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new HttpError(400, `${name} must be a non-negative integer`);
+  }
+  return parseInt(value, 10);
+}
+
+// 支持 ISO 时间或 Unix 秒
+function parseTime(params: URLSearchParams, name: string): string | undefined {
+  const value = params.get(name);
+  if (value === null || value === '') {
+    return undefined;
+  }
+  const date = /^\d+$/.test(value) ? new Date(parseInt(value, 10) * 1000) : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new HttpError(400, `${name} must be an ISO timestamp or unix seconds`);
+  }
+  return date.toISOString();
+}
+
+function encodeCursor(cursor: SwapCursor | WalletActivityCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+function decodeCursor(value: string): SwapCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof cursor.slot !== 'number' ||
+      typeof cursor.signature !== 'string' ||
+      typeof cursor.outerIndex !== 'number' ||
+      typeof cursor.innerIndex !== 'number'
+    ) {
+      throw new Error('invalid cursor');
+    }
+    return cursor;
+  } catch (error) {
+    throw new HttpError(400, 'Invalid cursor');
+  }
+}
+
+function decodeWalletActivityCursor(value: string): WalletActivityCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    if (
+      typeof cursor.slot !== 'number' ||
+      typeof cursor.signature !== 'string' ||
+      typeof cursor.wallet !== 'string' ||
+      typeof cursor.seq !== 'number'
+    ) {
+      throw new Error('invalid cursor');
+    }
+    return cursor;
+  } catch (error) {
+    throw new HttpError(400, 'Invalid cursor');
+  }
+}
+
+function sendJson(res: http.ServerResponse, statusCode: number, body: unknown) {
+  res.writeHead(statusCode, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+}
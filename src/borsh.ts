@@ -0,0 +1,112 @@
+import bs58 from 'bs58';
+
+// Borsh 基础类型读取器，用于解析 Anchor 指令参数和事件
+// u64 / u128 等大整数以十进制字符串返回，避免超出 Number 精度，公钥以 base58 字符串返回
+export type BorshType =
+  | 'u8'
+  | 'bool'
+  | 'u16'
+  | 'u32'
+  | 'i32'
+  | 'u64'
+  | 'i64'
+  | 'u128'
+  | 'pubkey'
+  | 'option<bool>';
+
+export type BorshValue = string | number | boolean | null;
+
+export class BorshReader {
+  private buffer: Buffer;
+  private offset: number;
+
+  constructor(buffer: Buffer, offset = 0) {
+    this.buffer = buffer;
+    this.offset = offset;
+  }
+
+  u8(): number {
+    const value = this.buffer.readUInt8(this.offset);
+    this.offset += 1;
+    return value;
+  }
+
+  bool(): boolean {
+    return this.u8() !== 0;
+  }
+
+  u16(): number {
+    const value = this.buffer.readUInt16LE(this.offset);
+    this.offset += 2;
+    return value;
+  }
+
+  u32(): number {
+    const value = this.buffer.readUInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  i32(): number {
+    const value = this.buffer.readInt32LE(this.offset);
+    this.offset += 4;
+    return value;
+  }
+
+  u64(): string {
+    const value = this.buffer.readBigUInt64LE(this.offset);
+    this.offset += 8;
+    return value.toString();
+  }
+
+  i64(): string {
+    const value = this.buffer.readBigInt64LE(this.offset);
+    this.offset += 8;
+    return value.toString();
+  }
+
+  u128(): string {
+    const low = this.buffer.readBigUInt64LE(this.offset);
+    const high = this.buffer.readBigUInt64LE(this.offset + 8);
+    this.offset += 16;
+    return ((high << BigInt(64)) + low).toString();
+  }
+
+  pubkey(): string {
+    if (this.offset + 32 > this.buffer.length) {
+      throw new RangeError('公钥超出数据长度');
+    }
+    const value = bs58.encode(this.buffer.subarray(this.offset, this.offset + 32));
+    this.offset += 32;
+    return value;
+  }
+
+  option<T>(read: () => T): T | null {
+    return this.u8() === 0 ? null : read();
+  }
+
+  read(type: BorshType): BorshValue {
+    switch (type) {
+      case 'u8':
+        return this.u8();
+      case 'bool':
+        return this.bool();
+      case 'u16':
+        return this.u16();
+      case 'u32':
+        return this.u32();
+      case 'i32':
+        return this.i32();
+      case 'u64':
+        return this.u64();
+      case 'i64':
+        return this.i64();
+      case 'u128':
+        return this.u128();
+      case 'pubkey':
+        return this.pubkey();
+      case 'option<bool>':
+        return this.option(() => this.bool());
+    }
+  }
+}
@@ -0,0 +1,182 @@
+import { calculatePrice, formatUnits, parseUnits, PRICE_DECIMALS } from './amounts';
+
+// K 线周期及其秒数；1m 由 swap 直接聚合，其余周期由 1m K 线合并
+export const CANDLE_INTERVALS = {
+  '1m': 60,
+  '5m': 300,
+  '1h': 3600,
+  '1d': 86400,
+};
+
+export type CandleInterval = keyof typeof CANDLE_INTERVALS;
+
+// pool：单个池子；pair：同一交易对所有池子的成交合并
+export type MarketType = 'pool' | 'pair';
+
+export interface CandleValues {
+  // 每 1 个 base 代币折合的 quote 数量，小数字符串
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  // 成交量：最小单位的整数字符串及换算后的小数字符串
+  baseVolume: string;
+  baseUiVolume: string;
+  quoteVolume: string;
+  quoteUiVolume: string;
+  trades: number;
+}
+
+export interface Candle extends CandleValues {
+  marketType: MarketType;
+  // pool 为池子地址，pair 为 `${baseMint}/${quoteMint}`
+  market: string;
+  interval: CandleInterval;
+  openTime: string;
+  baseMint: string;
+  quoteMint: string;
+  baseDecimals: number;
+  quoteDecimals: number;
+}
+
+// 已按 base/quote 方向整理的单笔成交，数量为最小单位
+export interface CandleTrade {
+  baseAmount: bigint;
+  quoteAmount: bigint;
+}
+
+// 计价代币优先级：交易对中包含这些代币时以其作为 quote，靠前的优先
+const QUOTE_MINTS = [
+  'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v', // USDC
+  'Es9vMFrzaCERmJfrF4H2FYD4KCoNkY11McCe8BenwNYB', // USDT
+  '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU', // USDC (devnet)
+  'So11111111111111111111111111111111111111112', // WSOL
+];
+
+export function isCandleInterval(value: string): value is CandleInterval {
+  return Object.prototype.hasOwnProperty.call(CANDLE_INTERVALS, value);
+}
+
+// 确定交易对方向，与 swap 的买卖方向无关；两边都不是计价代币时按地址排序
+export function orientPair(mintA: string, mintB: string): { baseMint: string; quoteMint: string } {
+  const rankA = quoteRank(mintA);
+  const rankB = quoteRank(mintB);
+  if (rankA !== rankB) {
+    return rankA < rankB
+      ? { baseMint: mintB, quoteMint: mintA }
+      : { baseMint: mintA, quoteMint: mintB };
+  }
+  return mintA < mintB
+    ? { baseMint: mintA, quoteMint: mintB }
+    : { baseMint: mintB, quoteMint: mintA };
+}
+
+export function pairMarket(baseMint: string, quoteMint: string): string {
+  return `${baseMint}/${quoteMint}`;
+}
+
+// 所在周期的开始时间（UTC 对齐）
+export function bucketStart(time: string, interval: CandleInterval): string {
+  const size = CANDLE_INTERVALS[interval] * 1000;
+  return new Date(Math.floor(Date.parse(time) / size) * size).toISOString();
+}
+
+export function bucketEnd(openTime: string, interval: CandleInterval): string {
+  return new Date(Date.parse(openTime) + CANDLE_INTERVALS[interval] * 1000).toISOString();
+}
+
+// 按时间顺序的成交聚合为 K 线；没有可计算价格的成交时返回 null
+export function aggregateTrades(
+  trades: CandleTrade[],
+  baseDecimals: number,
+  quoteDecimals: number
+): CandleValues | null {
+  const prices: bigint[] = [];
+  let baseVolume = 0n;
+  let quoteVolume = 0n;
+
+  for (const trade of trades) {
+    const price = calculatePrice(trade.baseAmount, baseDecimals, trade.quoteAmount, quoteDecimals);
+    if (price === null) continue;
+    prices.push(price);
+    baseVolume += trade.baseAmount;
+    quoteVolume += trade.quoteAmount;
+  }
+
+  if (prices.length === 0) {
+    return null;
+  }
+  return toValues(
+    prices[0],
+    prices,
+    prices[prices.length - 1],
+    baseVolume,
+    quoteVolume,
+    prices.length,
+    baseDecimals,
+    quoteDecimals
+  );
+}
+
+// 按时间顺序的小周期 K 线合并为大周期 K 线
+export function mergeCandles(
+  candles: CandleValues[],
+  baseDecimals: number,
+  quoteDecimals: number
+): CandleValues | null {
+  if (candles.length === 0) {
+    return null;
+  }
+
+  const extremes: bigint[] = [];
+  let baseVolume = 0n;
+  let quoteVolume = 0n;
+  let trades = 0;
+  for (const candle of candles) {
+    extremes.push(parseUnits(candle.high, PRICE_DECIMALS), parseUnits(candle.low, PRICE_DECIMALS));
+    baseVolume += BigInt(candle.baseVolume);
+    quoteVolume += BigInt(candle.quoteVolume);
+    trades += candle.trades;
+  }
+
+  return toValues(
+    parseUnits(candles[0].open, PRICE_DECIMALS),
+    extremes,
+    parseUnits(candles[candles.length - 1].close, PRICE_DECIMALS),
+    baseVolume,
+    quoteVolume,
+    trades,
+    baseDecimals,
+    quoteDecimals
+  );
+}
+
+function toValues(
+  open: bigint,
+  prices: bigint[],
+  close: bigint,
+  baseVolume: bigint,
+  quoteVolume: bigint,
+  trades: number,
+  baseDecimals: number,
+  quoteDecimals: number
+): CandleValues {
+  const high = prices.reduce((max, price) => (price > max ? price : max));
+  const low = prices.reduce((min, price) => (price < min ? price : min));
+  return {
+    open: formatUnits(open, PRICE_DECIMALS),
+    high: formatUnits(high, PRICE_DECIMALS),
+    low: formatUnits(low, PRICE_DECIMALS),
+    close: formatUnits(close, PRICE_DECIMALS),
+    baseVolume: baseVolume.toString(),
+    baseUiVolume: formatUnits(baseVolume, baseDecimals),
+    quoteVolume: quoteVolume.toString(),
+    quoteUiVolume: formatUnits(quoteVolume, quoteDecimals),
+    trades,
+  };
+}
+
+function quoteRank(mint: string): number {
+  const index = QUOTE_MINTS.indexOf(mint);
+  return index < 0 ? QUOTE_MINTS.length : index;
+}
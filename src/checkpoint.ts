@@ -0,0 +1,155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// 区块开始和完成时的状态变化合并后写入，避免每个区块都同步写文件
+const SAVE_DELAY_MS = 1000;
+
+interface CheckpointState {
+  // 已完整处理的最高连续区块（该区块及之前的区块均已处理完成）
+  lastProcessedSlot: number;
+  // 已开始但尚未完成的区块
+  inFlightSlots: number[];
+  // 已完成但高于 lastProcessedSlot 的区块（中间仍有未完成的区块）
+  completedSlots: number[];
+  updatedAt: string;
+}
+
+export class CheckpointStore {
+  private filePath: string;
+  private lastProcessedSlot: number | null = null;
+  private inFlightSlots = new Set<number>();
+  private completedSlots = new Set<number>();
+  private recoveredInFlightSlots: number[] = [];
+  private saveTimer?: NodeJS.Timeout;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+  }
+
+  // 读取检查点文件，不存在时视为首次启动
+  private load() {
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const state = JSON.parse(fs.readFileSync(this.filePath, 'utf8')) as CheckpointState;
+    this.lastProcessedSlot = state.lastProcessedSlot;
+    this.completedSlots = new Set(state.completedSlots || []);
+    // 上次退出时仍在处理中的区块，重启后需要重新处理
+    this.recoveredInFlightSlots = state.inFlightSlots || [];
+  }
+
+  // 立即写出尚未保存的状态，退出前调用
+  flush() {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+      this.save();
+    }
+  }
+
+  // 进程崩溃时最多丢失最近 SAVE_DELAY_MS 内的变化，对应的区块重启后重新处理，写入按签名覆盖
+  private scheduleSave() {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save();
+    }, SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  // 先写临时文件再 rename，保证进程崩溃时检查点文件不会损坏
+  private save() {
+    const dir = path.dirname(this.filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    const state: CheckpointState = {
+      lastProcessedSlot: this.lastProcessedSlot ?? -1,
+      inFlightSlots: Array.from(this.inFlightSlots).sort((a, b) => a - b),
+      completedSlots: Array.from(this.completedSlots).sort((a, b) => a - b),
+      updatedAt: new Date().toISOString(),
+    };
+
+    const tmpPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(state, null, 2));
+    fs.renameSync(tmpPath, this.filePath);
+  }
+
+  hasCheckpoint(): boolean {
+    return this.lastProcessedSlot !== null;
+  }
+
+  getLastProcessedSlot(): number | null {
+    return this.lastProcessedSlot;
+  }
+
+  getRecoveredInFlightSlots(): number[] {
+    return this.recoveredInFlightSlots;
+  }
+
+  // 计算重启后的起始区块：检查点之后的第一个区块
+  getResumeSlot(defaultSlot: number): number {
+    if (this.lastProcessedSlot === null) {
+      return defaultSlot;
+    }
+    return this.lastProcessedSlot + 1;
+  }
+
+  isCompleted(slot: number): boolean {
+    return (
+      (this.lastProcessedSlot !== null && slot <= this.lastProcessedSlot) ||
+      this.completedSlots.has(slot)
+    );
+  }
+
+  isInFlight(slot: number): boolean {
+    return this.inFlightSlots.has(slot);
+  }
+
+  // 首次启动时设置基准，使 startSlot 之前的区块视为已处理
+  initialize(startSlot: number) {
+    if (this.lastProcessedSlot === null) {
+      this.lastProcessedSlot = startSlot - 1;
+      this.save();
+    }
+  }
+
+  markInFlight(slot: number) {
+    this.inFlightSlots.add(slot);
+    this.scheduleSave();
+  }
+
+  markCompleted(slot: number) {
+    this.inFlightSlots.delete(slot);
+    this.completedSlots.add(slot);
+    this.advance();
+    this.scheduleSave();
+  }
+
+  // 区块处理失败，保留在检查点之后，下次启动会重新处理
+  markFailed(slot: number) {
+    this.inFlightSlots.delete(slot);
+    this.scheduleSave();
+  }
+
+  // 只有连续完成的区块才推进检查点
+  private advance() {
+    if (this.lastProcessedSlot === null) {
+      return;
+    }
+    while (this.completedSlots.has(this.lastProcessedSlot + 1)) {
+      this.lastProcessedSlot += 1;
+      this.completedSlots.delete(this.lastProcessedSlot);
+    }
+    for (const slot of this.completedSlots) {
+      if (slot <= this.lastProcessedSlot) {
+        this.completedSlots.delete(slot);
+      }
+    }
+  }
+}
@@ -0,0 +1,242 @@
+import { Console } from 'console';
+import { ConfigError, IndexerConfig, loadConfig } from './config';
+import { ParsedTransaction } from './parser';
+import { isSkippedSlotError, SlotRunResult, SolanaIndexer } from './indexer';
+import { handleShutdownSignals } from './shutdown';
+
+// 退出码
+export const EXIT_OK = 0;
+// 运行失败、有区块处理失败，或有界处理被信号中断
+export const EXIT_FAILURE = 1;
+// 命令、参数或配置错误
+export const EXIT_USAGE = 2;
+// 要检查的交易或区块不存在、被跳过或不涉及监听程序
+export const EXIT_NOT_FOUND = 3;
+
+const USAGE = `用法: npm run cli -- <命令> [参数]
+
+命令:
+  live                         从检查点开始追块并持续监听新区块（npm start）
+  index --from <slot> [--to <slot>]
+                               处理指定范围的区块后退出，--to 默认为节点最新区块；不读写检查点
+  replay                       按顺序处理 BLOCK_ARCHIVE_DIR 中录制的全部区块后退出
+  inspect-tx <signature>       解析单笔交易并输出 JSON，不写入数据库
+  inspect-slot <slot>          解析单个区块并输出 JSON，不写入数据库
+
+选项:
+  --config <file>              配置文件，默认为 CONFIG_FILE 或 indexer.config.json
+
+收到 SIGINT / SIGTERM 时停止领取新的区块，等待处理中的区块完成后退出（SHUTDOWN_TIMEOUT_MS）
+
+退出码: 0 成功，1 运行失败、有区块处理失败或被中断，2 参数或配置错误，3 交易或区块不存在`;
+
+class UsageError extends Error {}
+
+interface ParsedArgs {
+  command?: string;
+  positional: string[];
+  options: Record<string, string | true>;
+}
+
+// 支持 --name value、--name=value 和不带值的 --flag
+export function parseArgs(argv: string[]): ParsedArgs {
+  const result: ParsedArgs = { positional: [], options: {} };
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg.startsWith('--')) {
+      const [name, value] = arg.slice(2).split(/=(.*)/s);
+      if (value !== undefined) {
+        result.options[name] = value;
+      } else if (index + 1 < argv.length && !argv[index + 1].startsWith('--')) {
+        result.options[name] = argv[++index];
+      } else {
+        result.options[name] = true;
+      }
+    } else if (result.command === undefined) {
+      result.command = arg;
+    } else {
+      result.positional.push(arg);
+    }
+  }
+  return result;
+}
+
+function parseSlot(value: string | true | undefined, name: string): number {
+  if (typeof value !== 'string' || !/^\d+$/.test(value)) {
+    throw new UsageError(`${name} 必须是非负整数`);
+  }
+  return parseInt(value);
+}
+
+function expectPositional(args: ParsedArgs, count: number) {
+  if (args.positional.length !== count) {
+    throw new UsageError(`${args.command} 需要 ${count} 个参数，实际为 ${args.positional.length} 个`);
+  }
+}
+
+// 读取并校验配置，配置错误时在创建索引服务（连接节点、打开数据库）之前退出
+function createIndexer(
+  args: ParsedArgs,
+  options: {
+    override?: (config: IndexerConfig) => void;
+    // 运行日志的输出，默认为 console
+    output?: Console;
+  } = {}
+): SolanaIndexer {
+  const { override = () => undefined, output = console } = options;
+  const configFile = args.options.config;
+  if (configFile === true) {
+    throw new UsageError('--config 需要文件路径');
+  }
+  const { config, file } = loadConfig(configFile);
+  if (file) {
+    output.log('配置文件:', file);
+  }
+  override(config);
+  return new SolanaIndexer(config, output);
+}
+
+// 收到 SIGINT / SIGTERM 时关闭索引服务后退出。实时模式在超时前全部完成时以 0 退出；
+// 有界处理没有处理完指定范围，以 1 退出
+function exitOnSignal(indexer: SolanaIndexer, command: string): () => void {
+  return handleShutdownSignals(
+    async () => {
+      const clean = await indexer.shutdown();
+      return clean && command === 'live' ? EXIT_OK : EXIT_FAILURE;
+    },
+    {
+      timeoutMs: indexer.shutdownTimeoutMs,
+      exit: code => process.stdout.write('', () => process.exit(code)),
+    }
+  );
+}
+
+function runResultCode(result: SlotRunResult): number {
+  return result.failed.length > 0 || result.interrupted ? EXIT_FAILURE : EXIT_OK;
+}
+
+// 只输出写入数据库的记录和解析失败原因，不包含原始交易
+function toOutput(parsed: ParsedTransaction) {
+  return { ...parsed.record, failures: parsed.failures };
+}
+
+// inspect 命令的标准输出只包含 JSON，运行日志写到标准错误
+const inspectOutput = new Console(process.stderr);
+
+function writeJson(value: unknown) {
+  process.stdout.write(JSON.stringify(value, null, 2) + '\n');
+}
+
+export async function main(argv: string[]): Promise<number> {
+  const args = parseArgs(argv);
+  if (!args.command || args.options.help) {
+    console.log(USAGE);
+    return args.command || args.options.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  let indexer: SolanaIndexer | undefined;
+  let removeSignalHandlers: (() => void) | undefined;
+  // 实时模式启动后一直运行，由信号处理关闭；启动失败（例如查询接口端口被占用）时在 finally 中关闭
+  let running = false;
+  try {
+    switch (args.command) {
+      case 'live': {
+        expectPositional(args, 0);
+        indexer = createIndexer(args);
+        removeSignalHandlers = exitOnSignal(indexer, args.command);
+        await indexer.live();
+        running = true;
+        // 实时模式一直运行，由 SIGINT / SIGTERM 退出
+        return new Promise<number>(() => undefined);
+      }
+
+      case 'index': {
+        expectPositional(args, 0);
+        const from = parseSlot(args.options.from, '--from');
+        const to = args.options.to === undefined ? undefined : parseSlot(args.options.to, '--to');
+        if (to !== undefined && to < from) {
+          throw new UsageError('--to 不能小于 --from');
+        }
+        indexer = createIndexer(args);
+        removeSignalHandlers = exitOnSignal(indexer, args.command);
+        const result = await indexer.backfill(from, to);
+        console.log(result.interrupted ? '区块处理中断:' : '区块处理完成:', {
+          处理: result.processed,
+          跳过: result.skipped,
+          失败: result.failed,
+        });
+        return runResultCode(result);
+      }
+
+      case 'replay': {
+        expectPositional(args, 0);
+        indexer = createIndexer(args, {
+          override: config => {
+            config.source.kind = 'replay';
+          },
+        });
+        removeSignalHandlers = exitOnSignal(indexer, args.command);
+        return runResultCode(await indexer.replay());
+      }
+
+      case 'inspect-tx': {
+        expectPositional(args, 1);
+        indexer = createIndexer(args, { output: inspectOutput });
+        const parsed = await indexer.inspectTransaction(args.positional[0]);
+        if (parsed === undefined) {
+          console.error(`交易 ${args.positional[0]} 不存在`);
+          return EXIT_NOT_FOUND;
+        }
+        if (parsed === null) {
+          console.error(`交易 ${args.positional[0]} 执行失败或不涉及监听程序`);
+          return EXIT_NOT_FOUND;
+        }
+        writeJson(toOutput(parsed));
+        return EXIT_OK;
+      }
+
+      case 'inspect-slot': {
+        expectPositional(args, 1);
+        const slot = parseSlot(args.positional[0], 'slot');
+        indexer = createIndexer(args, { output: inspectOutput });
+        const inspected = await indexer.inspectSlot(slot);
+        if (!inspected) {
+          console.error(`区块 ${slot} 不存在`);
+          return EXIT_NOT_FOUND;
+        }
+        writeJson({
+          slot,
+          blockhash: inspected.block.blockhash,
+          parentSlot: inspected.block.parentSlot,
+          blockTime: inspected.block.blockTime,
+          transactions: inspected.transactions.map(({ parsed }) => toOutput(parsed)),
+        });
+        return EXIT_OK;
+      }
+
+      default:
+        throw new UsageError(`未知命令 ${args.command}`);
+    }
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(error.message);
+      console.error(USAGE);
+      return EXIT_USAGE;
+    }
+    if (error instanceof ConfigError) {
+      console.error(error.message);
+      return EXIT_USAGE;
+    }
+    if (args.command === 'inspect-slot' && error instanceof Error && isSkippedSlotError(error)) {
+      console.error(`区块 ${args.positional[0]} 被跳过`);
+      return EXIT_NOT_FOUND;
+    }
+    console.error(`${args.command} 失败:`, error instanceof Error ? error.message : String(error));
+    return EXIT_FAILURE;
+  } finally {
+    if (indexer && !running) {
+      removeSignalHandlers?.();
+      await indexer.close();
+    }
+  }
+}
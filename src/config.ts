@@ -0,0 +1,535 @@
+import * as fs from 'fs';
+import { clusterApiUrl, PublicKey } from '@solana/web3.js';
+import { createDefaultDecoderRegistry, DECODER_EVENT_TYPES, DecoderEventType } from './decoders';
+import { Cluster, inferCluster } from './tokens';
+import { Watchlist } from './wallets';
+import { parseWebhookConfigs, WebhookConfig } from './webhooks';
+
+export interface ProgramConfig {
+  id: string;
+  // 协议解码器名称（如 raydium-cpmm），内置程序 ID 可以省略；未设置时只记录指令原始数据
+  decoder?: string;
+  events: DecoderEventType[];
+}
+
+export interface IndexerConfig {
+  cluster: Cluster;
+  rpc: {
+    urls: string[];
+    wsUrl?: string;
+    // 每个节点每秒请求数
+    rateLimit: number;
+    maxRetries: number;
+    // 历史模式同时处理的区块数
+    fetchConcurrency: number;
+  };
+  source: {
+    kind: 'rpc' | 'record' | 'replay';
+    archiveDir: string;
+  };
+  startSlot: number;
+  commitment: 'confirmed' | 'finalized';
+  debug: boolean;
+  // 为空时处理区块中的全部交易
+  programs: ProgramConfig[];
+  // 监听的钱包，记录其活动并计算持仓和已实现盈亏
+  watchlists: Watchlist[];
+  storage: {
+    sqlitePath: string;
+    checkpointFile: string;
+  };
+  tokens: {
+    registryFile?: string;
+    cacheFile: string;
+    lookup: boolean;
+  };
+  logs: {
+    sinks: string[];
+    dir: string;
+    maxBytes: number;
+    rotate: 'none' | 'hourly' | 'daily';
+    flushInterval: number;
+    stdoutStreams?: string[];
+  };
+  webhooks: {
+    endpoints: WebhookConfig[];
+    maxAttempts: number;
+    timeout: number;
+  };
+  api: {
+    // 0 表示不启动查询接口
+    port: number;
+  };
+  health: {
+    stallSeconds: number;
+    readyMaxLag: number;
+  };
+  shutdown: {
+    // 收到 SIGINT / SIGTERM 后等待处理中的区块和 webhook 完成的最长时间
+    timeoutMs: number;
+  };
+}
+
+// 配置校验失败，errors 为全部错误，每项带配置路径
+export class ConfigError extends Error {
+  constructor(readonly errors: string[]) {
+    super(`配置错误:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+}
+
+type EnvKind = 'string' | 'number' | 'boolean' | 'list';
+
+// 环境变量覆盖配置文件中的对应项；同一路径有多个变量时前面的优先
+const ENV_OVERRIDES: [string, string, EnvKind][] = [
+  ['SOLANA_CLUSTER', 'cluster', 'string'],
+  ['SOLANA_RPC_URLS', 'rpc.urls', 'list'],
+  ['SOLANA_RPC_URL', 'rpc.urls', 'list'],
+  ['SOLANA_WS_URL', 'rpc.wsUrl', 'string'],
+  ['RPC_RATE_LIMIT', 'rpc.rateLimit', 'number'],
+  ['RPC_MAX_RETRIES', 'rpc.maxRetries', 'number'],
+  ['FETCH_CONCURRENCY', 'rpc.fetchConcurrency', 'number'],
+  ['BLOCK_SOURCE', 'source.kind', 'string'],
+  ['BLOCK_ARCHIVE_DIR', 'source.archiveDir', 'string'],
+  ['START_SLOT', 'startSlot', 'number'],
+  ['COMMITMENT', 'commitment', 'string'],
+  ['DEBUG', 'debug', 'boolean'],
+  ['WATCH_PROGRAM_IDS', 'programs', 'list'],
+  // 旧版本的单数变量名，与 SOLANA_RPC_URL 相同作为别名保留
+  ['WATCH_PROGRAM_ID', 'programs', 'list'],
+  ['WATCH_WALLETS', 'watchlists', 'list'],
+  ['SQLITE_PATH', 'storage.sqlitePath', 'string'],
+  ['CHECKPOINT_FILE', 'storage.checkpointFile', 'string'],
+  ['TOKEN_REGISTRY_FILE', 'tokens.registryFile', 'string'],
+  ['TOKEN_CACHE_FILE', 'tokens.cacheFile', 'string'],
+  ['TOKEN_METADATA_LOOKUP', 'tokens.lookup', 'boolean'],
+  ['LOG_SINKS', 'logs.sinks', 'list'],
+  ['LOG_DIR', 'logs.dir', 'string'],
+  ['LOG_MAX_BYTES', 'logs.maxBytes', 'number'],
+  ['LOG_ROTATE', 'logs.rotate', 'string'],
+  ['LOG_FLUSH_INTERVAL_MS', 'logs.flushInterval', 'number'],
+  ['LOG_STDOUT_STREAMS', 'logs.stdoutStreams', 'list'],
+  ['WEBHOOKS_FILE', 'webhooks.file', 'string'],
+  ['WEBHOOK_MAX_ATTEMPTS', 'webhooks.maxAttempts', 'number'],
+  ['WEBHOOK_TIMEOUT_MS', 'webhooks.timeoutMs', 'number'],
+  ['API_PORT', 'api.port', 'number'],
+  ['HEALTH_STALL_SECONDS', 'health.stallSeconds', 'number'],
+  ['READY_MAX_LAG', 'health.readyMaxLag', 'number'],
+  ['SHUTDOWN_TIMEOUT_MS', 'shutdown.timeoutMs', 'number'],
+];
+
+const DEFAULT_CONFIG_FILE = 'indexer.config.json';
+
+const ROTATE_MODES = ['none', 'hourly', 'daily'] as const;
+
+// 配置文件中允许出现的键，用于发现拼写错误
+const SECTION_KEYS: Record<string, string[]> = {
+  '': [
+    'cluster', 'rpc', 'source', 'startSlot', 'commitment', 'debug', 'programs', 'watchlists',
+    'storage', 'tokens', 'logs', 'webhooks', 'api', 'health', 'shutdown',
+  ],
+  rpc: ['urls', 'wsUrl', 'rateLimit', 'maxRetries', 'fetchConcurrency'],
+  source: ['kind', 'archiveDir'],
+  storage: ['sqlitePath', 'checkpointFile'],
+  tokens: ['registryFile', 'cacheFile', 'lookup'],
+  logs: ['sinks', 'dir', 'maxBytes', 'rotate', 'flushInterval', 'stdoutStreams'],
+  webhooks: ['file', 'endpoints', 'maxAttempts', 'timeoutMs'],
+  api: ['port'],
+  health: ['stallSeconds', 'readyMaxLag'],
+  shutdown: ['timeoutMs'],
+};
+
+// 读取配置文件（JSON，file 未设置时使用 CONFIG_FILE 或存在的 indexer.config.json），
+// 用环境变量覆盖后校验，所有错误一次性通过 ConfigError 报告
+export function loadConfig(
+  file?: string,
+  env: NodeJS.ProcessEnv = process.env
+): { config: IndexerConfig; file?: string } {
+  const configFile = file || env.CONFIG_FILE ||
+    (fs.existsSync(DEFAULT_CONFIG_FILE) ? DEFAULT_CONFIG_FILE : undefined);
+
+  let raw: Record<string, unknown> = {};
+  if (configFile) {
+    try {
+      raw = JSON.parse(fs.readFileSync(configFile, 'utf8'));
+    } catch (error) {
+      throw new ConfigError([
+        `无法读取配置文件 ${configFile}: ${error instanceof Error ? error.message : String(error)}`,
+      ]);
+    }
+    if (!isObject(raw)) {
+      throw new ConfigError([`配置文件 ${configFile} 必须是 JSON 对象`]);
+    }
+  }
+
+  // 配置路径 -> 覆盖它的环境变量
+  const envSources = new Map<string, string>();
+  for (const [name, path, kind] of ENV_OVERRIDES) {
+    const value = env[name];
+    if (value === undefined || envSources.has(path)) continue;
+    envSources.set(path, name);
+    setPath(raw, path, fromEnv(value, kind));
+  }
+
+  return { config: validateConfig(raw, envSources), file: configFile };
+}
+
+export function validateConfig(
+  raw: Record<string, unknown>,
+  envSources = new Map<string, string>()
+): IndexerConfig {
+  const reader = new ConfigReader(envSources);
+  for (const [section, keys] of Object.entries(SECTION_KEYS)) {
+    const value = section ? raw[section] : raw;
+    if (value === undefined) continue;
+    if (!isObject(value)) {
+      reader.fail(section, '必须是对象');
+      continue;
+    }
+    Object.keys(value)
+      .filter(key => !keys.includes(key))
+      .forEach(key => reader.fail(section ? `${section}.${key}` : key, '不是有效的配置项'));
+  }
+  const section = (name: string) =>
+    (isObject(raw[name]) ? raw[name] : {}) as Record<string, unknown>;
+  const rpc = section('rpc');
+  const source = section('source');
+  const storage = section('storage');
+  const tokens = section('tokens');
+  const logs = section('logs');
+  const webhooks = section('webhooks');
+  const health = section('health');
+
+  const configuredUrls = reader.stringList(rpc.urls, 'rpc.urls');
+  configuredUrls
+    ?.filter(url => !/^https?:\/\//.test(url))
+    .forEach(url => reader.fail('rpc.urls', `${url} 不是 http(s) 地址`));
+  const cluster = reader.oneOf(
+    raw.cluster,
+    'cluster',
+    ['mainnet-beta', 'devnet', 'testnet'] as const,
+    configuredUrls?.length ? inferCluster(configuredUrls[0]) : 'devnet'
+  );
+  const wsUrl = reader.string(rpc.wsUrl, 'rpc.wsUrl');
+  if (wsUrl && !/^wss?:\/\//.test(wsUrl)) {
+    reader.fail('rpc.wsUrl', `${wsUrl} 不是 ws(s) 地址`);
+  }
+
+  const config: IndexerConfig = {
+    cluster,
+    rpc: {
+      urls: configuredUrls?.length ? configuredUrls : [clusterApiUrl(cluster)],
+      wsUrl,
+      rateLimit: reader.number(rpc.rateLimit, 'rpc.rateLimit', 4, { min: 0, integer: false }),
+      maxRetries: reader.number(rpc.maxRetries, 'rpc.maxRetries', 5),
+      fetchConcurrency: reader.number(rpc.fetchConcurrency, 'rpc.fetchConcurrency', 5, { min: 1 }),
+    },
+    source: {
+      kind: reader.oneOf(source.kind, 'source.kind', ['rpc', 'record', 'replay'] as const, 'rpc'),
+      archiveDir: reader.string(source.archiveDir, 'source.archiveDir') || 'data/blocks',
+    },
+    startSlot: reader.number(raw.startSlot, 'startSlot', 289001565),
+    commitment: reader.oneOf(
+      raw.commitment,
+      'commitment',
+      ['confirmed', 'finalized'] as const,
+      'confirmed'
+    ),
+    debug: reader.boolean(raw.debug, 'debug', false),
+    programs: readPrograms(raw.programs, reader),
+    watchlists: readWatchlists(raw.watchlists, reader),
+    storage: {
+      sqlitePath: reader.string(storage.sqlitePath, 'storage.sqlitePath') || 'data/indexer.db',
+      checkpointFile:
+        reader.string(storage.checkpointFile, 'storage.checkpointFile') || 'data/checkpoint.json',
+    },
+    tokens: {
+      registryFile: reader.string(tokens.registryFile, 'tokens.registryFile'),
+      cacheFile: reader.string(tokens.cacheFile, 'tokens.cacheFile') || 'data/token-metadata.json',
+      lookup: reader.boolean(tokens.lookup, 'tokens.lookup', true),
+    },
+    logs: {
+      sinks: reader.stringList(logs.sinks, 'logs.sinks') ?? ['file'],
+      dir: reader.string(logs.dir, 'logs.dir') || 'logs',
+      maxBytes: reader.number(logs.maxBytes, 'logs.maxBytes', 100 * 1024 * 1024),
+      rotate: reader.oneOf(logs.rotate, 'logs.rotate', ROTATE_MODES, 'daily'),
+      flushInterval: reader.number(logs.flushInterval, 'logs.flushInterval', 1000, { min: 1 }),
+      stdoutStreams: reader.stringList(logs.stdoutStreams, 'logs.stdoutStreams'),
+    },
+    webhooks: {
+      endpoints: readWebhooks(webhooks, reader),
+      maxAttempts: reader.number(webhooks.maxAttempts, 'webhooks.maxAttempts', 6, { min: 1 }),
+      timeout: reader.number(webhooks.timeoutMs, 'webhooks.timeoutMs', 10000, { min: 1 }),
+    },
+    api: {
+      port: reader.number(section('api').port, 'api.port', 3000),
+    },
+    health: {
+      stallSeconds: reader.number(health.stallSeconds, 'health.stallSeconds', 120, { min: 1 }),
+      readyMaxLag: reader.number(health.readyMaxLag, 'health.readyMaxLag', 150),
+    },
+    shutdown: {
+      timeoutMs: reader.number(
+        section('shutdown').timeoutMs,
+        'shutdown.timeoutMs',
+        30000,
+        { min: 1 }
+      ),
+    },
+  };
+
+  // 速率为 0 时令牌桶永远取不到令牌
+  if (config.rpc.rateLimit <= 0) {
+    reader.fail('rpc.rateLimit', '必须大于 0');
+  }
+
+  config.logs.sinks
+    .filter(kind => kind !== 'file' && kind !== 'stdout')
+    .forEach(kind => reader.fail('logs.sinks', `${kind} 不支持，只支持 file 或 stdout`));
+
+  if (reader.errors.length > 0) {
+    throw new ConfigError(reader.errors);
+  }
+  return config;
+}
+
+// programs 为程序 ID 字符串或 { id, decoder, events } 的数组
+function readPrograms(value: unknown, reader: ConfigReader): ProgramConfig[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    reader.fail('programs', '必须是数组');
+    return [];
+  }
+
+  const decoders = createDefaultDecoderRegistry();
+  const programs: ProgramConfig[] = [];
+  value.forEach((item, index) => {
+    const path = `programs[${index}]`;
+    const entry = typeof item === 'string' ? { id: item } : item;
+    if (!isObject(entry)) {
+      reader.fail(path, '必须是程序 ID 或对象');
+      return;
+    }
+    Object.keys(entry)
+      .filter(key => !['id', 'decoder', 'events'].includes(key))
+      .forEach(key => reader.fail(`${path}.${key}`, '不是有效的配置项'));
+
+    const id = reader.string(entry.id, `${path}.id`);
+    if (!id) {
+      reader.fail(`${path}.id`, '不能为空');
+      return;
+    }
+    if (!isPublicKey(id)) {
+      reader.fail(`${path}.id`, `${id} 不是有效的 base58 公钥`);
+      return;
+    }
+    if (programs.some(program => program.id === id)) {
+      reader.fail(`${path}.id`, `${id} 重复`);
+      return;
+    }
+
+    const decoder = reader.string(entry.decoder, `${path}.decoder`) ?? decoders.get(id)?.protocol;
+    if (decoder && !decoders.getByProtocol(decoder)) {
+      reader.fail(`${path}.decoder`, `${decoder} 不存在，可用的解码器: ${decoders.protocols().join('、')}`);
+    }
+    const events = reader.stringList(entry.events, `${path}.events`);
+    events
+      ?.filter(type => !DECODER_EVENT_TYPES.includes(type as DecoderEventType))
+      .forEach(type =>
+        reader.fail(`${path}.events`, `${type} 不支持，只支持 ${DECODER_EVENT_TYPES.join('、')}`)
+      );
+    if (events?.length && !decoder) {
+      reader.fail(`${path}.events`, '没有解码器的程序不能生成记录，需要设置 decoder');
+    }
+
+    programs.push({
+      id,
+      decoder,
+      events: decoder ? ((events ?? DECODER_EVENT_TYPES) as DecoderEventType[]) : [],
+    });
+  });
+  return programs;
+}
+
+// watchlists 为 { name, wallets } 的数组；直接写钱包地址（例如 WATCH_WALLETS）时归入 default 列表
+function readWatchlists(value: unknown, reader: ConfigReader): Watchlist[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    reader.fail('watchlists', '必须是数组');
+    return [];
+  }
+
+  const watchlists: Watchlist[] = [];
+  const defaultWallets = value.filter(item => typeof item === 'string');
+  if (defaultWallets.length > 0) {
+    watchlists.push({ name: 'default', wallets: defaultWallets });
+  }
+  value.forEach((item, index) => {
+    if (typeof item === 'string') return;
+    const path = `watchlists[${index}]`;
+    if (!isObject(item)) {
+      reader.fail(path, '必须是钱包地址或 { name, wallets } 对象');
+      return;
+    }
+    Object.keys(item)
+      .filter(key => key !== 'name' && key !== 'wallets')
+      .forEach(key => reader.fail(`${path}.${key}`, '不是有效的配置项'));
+    const name = reader.string(item.name, `${path}.name`);
+    if (!name) {
+      reader.fail(`${path}.name`, '不能为空');
+      return;
+    }
+    if (watchlists.some(watchlist => watchlist.name === name)) {
+      reader.fail(`${path}.name`, `${name} 重复`);
+      return;
+    }
+    watchlists.push({ name, wallets: reader.stringList(item.wallets, `${path}.wallets`) || [] });
+  });
+
+  for (const watchlist of watchlists) {
+    watchlist.wallets
+      .filter(wallet => !isPublicKey(wallet))
+      .forEach(wallet => reader.fail(`watchlists.${watchlist.name}`, `${wallet} 不是有效的钱包地址`));
+  }
+  return watchlists;
+}
+
+// webhooks.endpoints 与 webhooks.file 的格式相同，两者的地址合并
+function readWebhooks(section: Record<string, unknown>, reader: ConfigReader): WebhookConfig[] {
+  const endpoints: WebhookConfig[] = [];
+  const file = reader.string(section.file, 'webhooks.file');
+  try {
+    if (file) {
+      endpoints.push(...parseWebhookConfigs(JSON.parse(fs.readFileSync(file, 'utf8')), file));
+    }
+    if (section.endpoints !== undefined) {
+      endpoints.push(...parseWebhookConfigs(section.endpoints, 'webhooks.endpoints'));
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    reader.fail(file ? 'webhooks.file' : 'webhooks.endpoints', message);
+  }
+  return endpoints;
+}
+
+// 按类型读取配置项，类型不符时记录错误并返回默认值
+class ConfigReader {
+  readonly errors: string[] = [];
+
+  // 来自环境变量的配置项，错误信息中带上变量名
+  constructor(private envSources: Map<string, string>) {}
+
+  fail(path: string, message: string) {
+    const env = this.envSources.get(path.replace(/\[\d+\].*$/, ''));
+    this.errors.push(`${path}${env ? `（${env}）` : ''}: ${message}`);
+  }
+
+  string(value: unknown, path: string): string | undefined {
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    if (typeof value !== 'string') {
+      this.fail(path, '必须是字符串');
+      return undefined;
+    }
+    return value;
+  }
+
+  number(
+    value: unknown,
+    path: string,
+    fallback: number,
+    { min = 0, integer = true }: { min?: number; integer?: boolean } = {}
+  ): number {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      this.fail(path, '必须是数字');
+      return fallback;
+    }
+    if (integer && !Number.isInteger(value)) {
+      this.fail(path, '必须是整数');
+      return fallback;
+    }
+    if (value < min) {
+      this.fail(path, `不能小于 ${min}`);
+      return fallback;
+    }
+    return value;
+  }
+
+  boolean(value: unknown, path: string, fallback: boolean): boolean {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (typeof value !== 'boolean') {
+      this.fail(path, '必须是 true 或 false');
+      return fallback;
+    }
+    return value;
+  }
+
+  oneOf<T extends string>(value: unknown, path: string, choices: readonly T[], fallback: T): T {
+    if (value === undefined) {
+      return fallback;
+    }
+    if (!choices.includes(value as T)) {
+      this.fail(path, `只支持 ${choices.join('、')}，当前为 ${JSON.stringify(value)}`);
+      return fallback;
+    }
+    return value as T;
+  }
+
+  stringList(value: unknown, path: string): string[] | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+    if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+      this.fail(path, '必须是字符串数组');
+      return undefined;
+    }
+    return value;
+  }
+}
+
+function fromEnv(value: string, kind: EnvKind): unknown {
+  switch (kind) {
+    case 'number':
+      return value.trim() === '' ? NaN : Number(value);
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    case 'list':
+      return value.split(',').map(item => item.trim()).filter(Boolean);
+    default:
+      return value;
+  }
+}
+
+function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split('.');
+  let current = target;
+  for (const key of keys.slice(0, -1)) {
+    if (!isObject(current[key])) {
+      current[key] = {};
+    }
+    current = current[key] as Record<string, unknown>;
+  }
+  current[keys[keys.length - 1]] = value;
+}
+
+function isPublicKey(value: string): boolean {
+  try {
+    new PublicKey(value);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
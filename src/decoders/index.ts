@@ -0,0 +1,77 @@
+import { orcaWhirlpoolDecoder } from './orca-whirlpool';
+import { raydiumAmmV4Decoder } from './raydium-amm-v4';
+import { raydiumClmmDecoder } from './raydium-clmm';
+import { raydiumCpmmDecoder } from './raydium-cpmm';
+import { DecodedEvent, DecodedInstruction, ProtocolDecoder } from './types';
+
+export * from './types';
+
+// 解码后生成的记录类别：swap 记录，以及流动性事件（创建池子、添加/移除流动性、开仓/平仓）
+export type DecoderEventType = 'swap' | 'liquidity';
+
+export const DECODER_EVENT_TYPES: DecoderEventType[] = ['swap', 'liquidity'];
+
+export interface DecoderRegistration {
+  // 默认为解码器内置的程序 ID，可以用于部署在其他地址的同一协议
+  programIds?: string[];
+  // 只为这些类别生成记录，默认全部
+  events?: DecoderEventType[];
+}
+
+// 按程序 ID 查找协议解码器；新增 DEX 只需要实现 ProtocolDecoder 并注册
+export class DecoderRegistry {
+  private decoders = new Map<string, ProtocolDecoder>();
+  private events = new Map<string, Set<DecoderEventType>>();
+
+  register(decoder: ProtocolDecoder, registration: DecoderRegistration = {}): this {
+    for (const programId of registration.programIds || decoder.programIds) {
+      this.decoders.set(programId, decoder);
+      if (registration.events) {
+        this.events.set(programId, new Set(registration.events));
+      } else {
+        this.events.delete(programId);
+      }
+    }
+    return this;
+  }
+
+  get(programId: string): ProtocolDecoder | undefined {
+    return this.decoders.get(programId);
+  }
+
+  getByProtocol(protocol: string): ProtocolDecoder | undefined {
+    return Array.from(this.decoders.values()).find(decoder => decoder.protocol === protocol);
+  }
+
+  protocols(): string[] {
+    return Array.from(new Set(Array.from(this.decoders.values(), decoder => decoder.protocol)));
+  }
+
+  // 程序的指令是否生成该类别的记录
+  emits(programId: string, type: DecoderEventType): boolean {
+    const enabled = this.events.get(programId);
+    return !enabled || enabled.has(type);
+  }
+
+  decode(programId: string, data: Buffer, accounts: string[]): DecodedInstruction | null {
+    const decoder = this.decoders.get(programId);
+    if (!decoder) {
+      return null;
+    }
+
+    return decoder.decode(data, accounts);
+  }
+
+  // 解码程序写入日志的事件（Program data），不认识的事件返回 null
+  decodeEvent(programId: string, data: Buffer): DecodedEvent | null {
+    return this.decoders.get(programId)?.decodeEvent?.(data) ?? null;
+  }
+}
+
+export function createDefaultDecoderRegistry(): DecoderRegistry {
+  return new DecoderRegistry()
+    .register(raydiumAmmV4Decoder)
+    .register(raydiumCpmmDecoder)
+    .register(raydiumClmmDecoder)
+    .register(orcaWhirlpoolDecoder);
+}
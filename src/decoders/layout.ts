@@ -0,0 +1,155 @@
+import { BorshReader, BorshType, BorshValue } from '../borsh';
+import {
+  DecodedEvent,
+  DecodedInstruction,
+  EventLayout,
+  InstructionLayout,
+  ProtocolDecoder,
+  ProtocolEvent,
+  SwapEventAmounts,
+} from './types';
+
+export interface LayoutDecodeResult {
+  args: { [key: string]: BorshValue };
+  accounts: { [role: string]: string };
+}
+
+// 从 offset 开始按顺序读取字段
+function readFields(
+  fields: [string, BorshType][],
+  data: Buffer,
+  offset: number
+): { [key: string]: BorshValue } {
+  const reader = new BorshReader(data, offset);
+  const values: { [key: string]: BorshValue } = {};
+  try {
+    for (const [name, type] of fields) {
+      values[name] = reader.read(type);
+    }
+  } catch (error) {
+    // 数据长度与布局不符（例如旧版本程序的指令或事件），只保留已解析的字段
+    if (!(error instanceof RangeError)) {
+      throw error;
+    }
+  }
+  return values;
+}
+
+// 按布局解析参数（从 offset 开始），并把账户列表映射为命名角色
+export function decodeWithLayout(
+  layout: InstructionLayout,
+  data: Buffer,
+  offset: number,
+  accounts: string[]
+): LayoutDecodeResult {
+  const args = readFields(layout.args, data, offset);
+
+  const namedAccounts: { [role: string]: string } = {};
+  layout.accounts.forEach((role, index) => {
+    if (accounts[index]) {
+      namedAccounts[role] = accounts[index];
+    }
+  });
+  // 超出布局的账户为 remaining accounts（例如 CLMM 的额外 tick array）
+  accounts.slice(layout.accounts.length).forEach((account, index) => {
+    namedAccounts[`remaining_${index}`] = account;
+  });
+
+  return { args, accounts: namedAccounts };
+}
+
+// Anchor 指令：前 8 字节为 discriminator
+export function decodeAnchorInstruction(
+  layouts: { [discriminator: string]: InstructionLayout },
+  data: Buffer,
+  accounts: string[]
+): (LayoutDecodeResult & { discriminator: string; layout: InstructionLayout }) | null {
+  if (data.length < 8) {
+    return null;
+  }
+
+  const discriminator = data.slice(0, 8).toString('hex');
+  const layout = layouts[discriminator];
+  if (!layout) {
+    return null;
+  }
+
+  return { discriminator, layout, ...decodeWithLayout(layout, data, 8, accounts) };
+}
+
+// Anchor 事件：前 8 字节为 sha256("event:<事件名>") 的前 8 字节
+export function decodeAnchorEvent(
+  layouts: { [discriminator: string]: EventLayout },
+  data: Buffer
+): { discriminator: string; layout: EventLayout; fields: { [key: string]: BorshValue } } | null {
+  if (data.length < 8) {
+    return null;
+  }
+
+  const discriminator = data.slice(0, 8).toString('hex');
+  const layout = layouts[discriminator];
+  if (!layout) {
+    return null;
+  }
+
+  return { discriminator, layout, fields: readFields(layout.fields, data, 8) };
+}
+
+export interface AnchorEvents {
+  layouts: { [discriminator: string]: EventLayout };
+  // 从 swap 事件中取出实际成交数量
+  toSwapAmounts?: (
+    name: string,
+    fields: { [key: string]: BorshValue }
+  ) => SwapEventAmounts | undefined;
+}
+
+export function toStringValue(value: BorshValue | undefined): string | undefined {
+  return value === undefined || value === null ? undefined : String(value);
+}
+
+// 根据 Anchor 指令布局表创建协议解码器，toEvent 负责把参数和账户转换为统一事件
+export function createAnchorDecoder(
+  protocol: string,
+  programIds: string[],
+  layouts: { [discriminator: string]: InstructionLayout },
+  toEvent: (
+    name: string,
+    args: { [key: string]: BorshValue },
+    accounts: { [role: string]: string }
+  ) => ProtocolEvent | undefined,
+  events?: AnchorEvents
+): ProtocolDecoder {
+  return {
+    protocol,
+    programIds,
+    decode(data: Buffer, accounts: string[]): DecodedInstruction | null {
+      const decoded = decodeAnchorInstruction(layouts, data, accounts);
+      if (!decoded) {
+        return null;
+      }
+      return {
+        protocol,
+        discriminator: decoded.discriminator,
+        name: decoded.layout.name,
+        type: decoded.layout.type,
+        args: decoded.args,
+        accounts: decoded.accounts,
+        event: toEvent(decoded.layout.name, decoded.args, decoded.accounts),
+      };
+    },
+    decodeEvent: events && ((data: Buffer): DecodedEvent | null => {
+      const decoded = decodeAnchorEvent(events.layouts, data);
+      if (!decoded) {
+        return null;
+      }
+      return {
+        protocol,
+        discriminator: decoded.discriminator,
+        name: decoded.layout.name,
+        fields: decoded.fields,
+        swap: events.toSwapAmounts?.(decoded.layout.name, decoded.fields),
+      };
+    }),
+  };
+}
@@ -0,0 +1,243 @@
+import { BorshType, BorshValue } from '../borsh';
+import { createAnchorDecoder, toStringValue } from './layout';
+import { InstructionLayout, ProtocolDecoder, ProtocolEvent } from './types';
+
+const WHIRLPOOL_SWAP_ARGS: [string, BorshType][] = [
+  ['amount', 'u64'],
+  ['other_amount_threshold', 'u64'],
+  ['sqrt_price_limit', 'u128'],
+  ['amount_specified_is_input', 'bool'],
+  ['a_to_b', 'bool'],
+];
+
+const WHIRLPOOL_LIQUIDITY_ACCOUNTS = [
+  'whirlpool',
+  'token_program',
+  'position_authority',
+  'position',
+  'position_token_account',
+  'token_owner_account_a',
+  'token_owner_account_b',
+  'token_vault_a',
+  'token_vault_b',
+  'tick_array_lower',
+  'tick_array_upper',
+];
+
+// Orca Whirlpool 指令布局
+const WHIRLPOOL_LAYOUTS: { [discriminator: string]: InstructionLayout } = {
+  f8c69e91e17587c8: {
+    name: 'swap',
+    type: 'swap',
+    args: WHIRLPOOL_SWAP_ARGS,
+    accounts: [
+      'token_program',
+      'token_authority',
+      'whirlpool',
+      'token_owner_account_a',
+      'token_vault_a',
+      'token_owner_account_b',
+      'token_vault_b',
+      'tick_array_0',
+      'tick_array_1',
+      'tick_array_2',
+      'oracle',
+    ],
+  },
+  '2b04ed0b1ac91e62': {
+    name: 'swap_v2',
+    type: 'swap',
+    args: WHIRLPOOL_SWAP_ARGS,
+    accounts: [
+      'token_program_a',
+      'token_program_b',
+      'memo_program',
+      'token_authority',
+      'whirlpool',
+      'token_mint_a',
+      'token_mint_b',
+      'token_owner_account_a',
+      'token_vault_a',
+      'token_owner_account_b',
+      'token_vault_b',
+      'tick_array_0',
+      'tick_array_1',
+      'tick_array_2',
+      'oracle',
+    ],
+  },
+  '5fb40aac54aee828': {
+    name: 'initialize_pool',
+    type: 'createPool',
+    args: [
+      ['whirlpool_bump', 'u8'],
+      ['tick_spacing', 'u16'],
+      ['initial_sqrt_price', 'u128'],
+    ],
+    accounts: [
+      'whirlpools_config',
+      'token_mint_a',
+      'token_mint_b',
+      'funder',
+      'whirlpool',
+      'token_vault_a',
+      'token_vault_b',
+      'fee_tier',
+      'token_program',
+      'system_program',
+      'rent',
+    ],
+  },
+  '87802f4d0f98f031': {
+    name: 'open_position',
+    type: 'openPosition',
+    args: [
+      ['position_bump', 'u8'],
+      ['tick_lower_index', 'i32'],
+      ['tick_upper_index', 'i32'],
+    ],
+    accounts: [
+      'funder',
+      'owner',
+      'position',
+      'position_mint',
+      'position_token_account',
+      'whirlpool',
+      'token_program',
+      'system_program',
+      'rent',
+      'associated_token_program',
+    ],
+  },
+  '7b86510031446262': {
+    name: 'close_position',
+    type: 'closePosition',
+    args: [],
+    accounts: [
+      'position_authority',
+      'receiver',
+      'position',
+      'position_mint',
+      'position_token_account',
+      'token_program',
+    ],
+  },
+  '2e9cf3760dcdfbb2': {
+    name: 'increase_liquidity',
+    type: 'increaseLiquidity',
+    args: [
+      ['liquidity_amount', 'u128'],
+      ['token_max_a', 'u64'],
+      ['token_max_b', 'u64'],
+    ],
+    accounts: WHIRLPOOL_LIQUIDITY_ACCOUNTS,
+  },
+  a026d06f685b2c01: {
+    name: 'decrease_liquidity',
+    type: 'decreaseLiquidity',
+    args: [
+      ['liquidity_amount', 'u128'],
+      ['token_min_a', 'u64'],
+      ['token_min_b', 'u64'],
+    ],
+    accounts: WHIRLPOOL_LIQUIDITY_ACCOUNTS,
+  },
+};
+
+const PROTOCOL = 'orca-whirlpool';
+
+function toEvent(
+  name: string,
+  args: { [key: string]: BorshValue },
+  accounts: { [role: string]: string }
+): ProtocolEvent | undefined {
+  switch (name) {
+    case 'swap':
+    case 'swap_v2': {
+      const exactIn = args.amount_specified_is_input !== false;
+      const aToB = args.a_to_b !== false;
+      return {
+        type: 'swap',
+        protocol: PROTOCOL,
+        pool: accounts.whirlpool,
+        swapType: exactIn ? 'exactIn' : 'exactOut',
+        inputAmount: String(exactIn ? args.amount : args.other_amount_threshold),
+        outputAmount: String(exactIn ? args.other_amount_threshold : args.amount),
+        owner: accounts.token_authority,
+        userInputAccount: aToB ? accounts.token_owner_account_a : accounts.token_owner_account_b,
+        userOutputAccount: aToB ? accounts.token_owner_account_b : accounts.token_owner_account_a,
+        inputVault: aToB ? accounts.token_vault_a : accounts.token_vault_b,
+        outputVault: aToB ? accounts.token_vault_b : accounts.token_vault_a,
+        vault0: accounts.token_vault_a,
+        vault1: accounts.token_vault_b,
+        mint0: accounts.token_mint_a,
+        mint1: accounts.token_mint_b,
+      };
+    }
+    case 'initialize_pool':
+      return {
+        type: 'createPool',
+        protocol: PROTOCOL,
+        pool: accounts.whirlpool,
+        owner: accounts.funder,
+        vault0: accounts.token_vault_a,
+        vault1: accounts.token_vault_b,
+        mint0: accounts.token_mint_a,
+        mint1: accounts.token_mint_b,
+      };
+    case 'open_position':
+      return {
+        type: 'openPosition',
+        protocol: PROTOCOL,
+        pool: accounts.whirlpool,
+        owner: accounts.owner,
+        position: accounts.position,
+        positionMint: accounts.position_mint,
+        tickLower: args.tick_lower_index as number,
+        tickUpper: args.tick_upper_index as number,
+      };
+    case 'close_position':
+      return {
+        type: 'closePosition',
+        protocol: PROTOCOL,
+        pool: '',
+        owner: accounts.position_authority,
+        position: accounts.position,
+        positionMint: accounts.position_mint,
+      };
+    case 'increase_liquidity':
+      return {
+        type: 'increaseLiquidity',
+        protocol: PROTOCOL,
+        pool: accounts.whirlpool,
+        owner: accounts.position_authority,
+        position: accounts.position,
+        liquidity: toStringValue(args.liquidity_amount),
+        amount0Limit: toStringValue(args.token_max_a),
+        amount1Limit: toStringValue(args.token_max_b),
+        vault0: accounts.token_vault_a,
+        vault1: accounts.token_vault_b,
+      };
+    case 'decrease_liquidity':
+      return {
+        type: 'decreaseLiquidity',
+        protocol: PROTOCOL,
+        pool: accounts.whirlpool,
+        owner: accounts.position_authority,
+        position: accounts.position,
+        liquidity: toStringValue(args.liquidity_amount),
+        amount0Limit: toStringValue(args.token_min_a),
+        amount1Limit: toStringValue(args.token_min_b),
+        vault0: accounts.token_vault_a,
+        vault1: accounts.token_vault_b,
+      };
+  }
+  return undefined;
+}
+
+export const orcaWhirlpoolDecoder: ProtocolDecoder = createAnchorDecoder(
+  PROTOCOL,
+  ['whirLbMiicVdio4qvUfM5KAg6Ct8VwpYzGff3uctyCc'],
+  WHIRLPOOL_LAYOUTS,
+  toEvent
+);
@@ -0,0 +1,279 @@
+import { BorshValue } from '../borsh';
+import { decodeWithLayout, toStringValue } from './layout';
+import { DecodedInstruction, InstructionLayout, ProtocolDecoder, ProtocolEvent } from './types';
+
+// Raydium AMM v4 不是 Anchor 程序，第 1 个字节为指令编号
+// 同一指令在不同版本中账户数量不同，按账户数量选择布局
+const SWAP_ACCOUNTS = [
+  'token_program',
+  'amm',
+  'amm_authority',
+  'amm_open_orders',
+  'amm_target_orders',
+  'pool_coin_token_account',
+  'pool_pc_token_account',
+  'serum_program',
+  'serum_market',
+  'serum_bids',
+  'serum_asks',
+  'serum_event_queue',
+  'serum_coin_vault',
+  'serum_pc_vault',
+  'serum_vault_signer',
+  'user_source_token_account',
+  'user_destination_token_account',
+  'user_source_owner',
+];
+
+// 新版本 swap 省略了 amm_target_orders
+const SWAP_ACCOUNTS_WITHOUT_TARGET_ORDERS = SWAP_ACCOUNTS.filter(
+  role => role !== 'amm_target_orders'
+);
+
+const WITHDRAW_ACCOUNTS = [
+  'token_program',
+  'amm',
+  'amm_authority',
+  'amm_open_orders',
+  'amm_target_orders',
+  'lp_mint',
+  'pool_coin_token_account',
+  'pool_pc_token_account',
+  'pool_withdraw_queue',
+  'pool_temp_lp_token_account',
+  'serum_program',
+  'serum_market',
+  'serum_coin_vault',
+  'serum_pc_vault',
+  'serum_vault_signer',
+  'user_lp_token_account',
+  'user_coin_token_account',
+  'user_pc_token_account',
+  'user_owner',
+  'serum_event_queue',
+  'serum_bids',
+  'serum_asks',
+];
+
+// 新版本 withdraw 省略了 pool_withdraw_queue 和 pool_temp_lp_token_account
+const WITHDRAW_ACCOUNTS_WITHOUT_QUEUE = WITHDRAW_ACCOUNTS.filter(
+  role => role !== 'pool_withdraw_queue' && role !== 'pool_temp_lp_token_account'
+);
+
+const AMM_V4_LAYOUTS: { [tag: number]: InstructionLayout[] } = {
+  1: [
+    {
+      name: 'initialize2',
+      type: 'createPool',
+      args: [
+        ['nonce', 'u8'],
+        ['open_time', 'u64'],
+        ['init_pc_amount', 'u64'],
+        ['init_coin_amount', 'u64'],
+      ],
+      accounts: [
+        'token_program',
+        'associated_token_program',
+        'system_program',
+        'rent',
+        'amm',
+        'amm_authority',
+        'amm_open_orders',
+        'lp_mint',
+        'coin_mint',
+        'pc_mint',
+        'pool_coin_token_account',
+        'pool_pc_token_account',
+        'pool_withdraw_queue',
+        'amm_target_orders',
+        'pool_temp_lp_token_account',
+        'serum_program',
+        'serum_market',
+        'user_wallet',
+        'user_token_coin',
+        'user_token_pc',
+        'user_lp_token_account',
+      ],
+    },
+  ],
+  3: [
+    {
+      name: 'deposit',
+      type: 'addLiquidity',
+      args: [
+        ['max_coin_amount', 'u64'],
+        ['max_pc_amount', 'u64'],
+        ['base_side', 'u64'],
+      ],
+      accounts: [
+        'token_program',
+        'amm',
+        'amm_authority',
+        'amm_open_orders',
+        'amm_target_orders',
+        'lp_mint',
+        'pool_coin_token_account',
+        'pool_pc_token_account',
+        'serum_market',
+        'user_coin_token_account',
+        'user_pc_token_account',
+        'user_lp_token_account',
+        'user_owner',
+        'serum_event_queue',
+      ],
+    },
+  ],
+  4: [
+    {
+      name: 'withdraw',
+      type: 'removeLiquidity',
+      args: [['amount', 'u64']],
+      accounts: WITHDRAW_ACCOUNTS,
+    },
+    {
+      name: 'withdraw',
+      type: 'removeLiquidity',
+      args: [['amount', 'u64']],
+      accounts: WITHDRAW_ACCOUNTS_WITHOUT_QUEUE,
+    },
+  ],
+  9: [
+    {
+      name: 'swap_base_in',
+      type: 'swap',
+      args: [
+        ['amount_in', 'u64'],
+        ['minimum_amount_out', 'u64'],
+      ],
+      accounts: SWAP_ACCOUNTS,
+    },
+    {
+      name: 'swap_base_in',
+      type: 'swap',
+      args: [
+        ['amount_in', 'u64'],
+        ['minimum_amount_out', 'u64'],
+      ],
+      accounts: SWAP_ACCOUNTS_WITHOUT_TARGET_ORDERS,
+    },
+  ],
+  11: [
+    {
+      name: 'swap_base_out',
+      type: 'swap',
+      args: [
+        ['max_amount_in', 'u64'],
+        ['amount_out', 'u64'],
+      ],
+      accounts: SWAP_ACCOUNTS,
+    },
+    {
+      name: 'swap_base_out',
+      type: 'swap',
+      args: [
+        ['max_amount_in', 'u64'],
+        ['amount_out', 'u64'],
+      ],
+      accounts: SWAP_ACCOUNTS_WITHOUT_TARGET_ORDERS,
+    },
+  ],
+};
+
+const PROTOCOL = 'raydium-amm-v4';
+
+function toEvent(
+  name: string,
+  args: { [key: string]: BorshValue },
+  accounts: { [role: string]: string }
+): ProtocolEvent | undefined {
+  switch (name) {
+    case 'swap_base_in':
+    case 'swap_base_out': {
+      const exactIn = name === 'swap_base_in';
+      return {
+        type: 'swap',
+        protocol: PROTOCOL,
+        pool: accounts.amm,
+        swapType: exactIn ? 'exactIn' : 'exactOut',
+        inputAmount: String(exactIn ? args.amount_in : args.max_amount_in),
+        outputAmount: String(exactIn ? args.minimum_amount_out : args.amount_out),
+        owner: accounts.user_source_owner,
+        userInputAccount: accounts.user_source_token_account,
+        userOutputAccount: accounts.user_destination_token_account,
+        vault0: accounts.pool_coin_token_account,
+        vault1: accounts.pool_pc_token_account,
+      };
+    }
+    case 'deposit':
+      return {
+        type: 'addLiquidity',
+        protocol: PROTOCOL,
+        pool: accounts.amm,
+        owner: accounts.user_owner,
+        lpMint: accounts.lp_mint,
+        amount0Limit: toStringValue(args.max_coin_amount),
+        amount1Limit: toStringValue(args.max_pc_amount),
+        vault0: accounts.pool_coin_token_account,
+        vault1: accounts.pool_pc_token_account,
+      };
+    case 'withdraw':
+      return {
+        type: 'removeLiquidity',
+        protocol: PROTOCOL,
+        pool: accounts.amm,
+        owner: accounts.user_owner,
+        lpMint: accounts.lp_mint,
+        liquidity: toStringValue(args.amount),
+        vault0: accounts.pool_coin_token_account,
+        vault1: accounts.pool_pc_token_account,
+      };
+    case 'initialize2':
+      return {
+        type: 'createPool',
+        protocol: PROTOCOL,
+        pool: accounts.amm,
+        owner: accounts.user_wallet,
+        lpMint: accounts.lp_mint,
+        amount0Limit: toStringValue(args.init_coin_amount),
+        amount1Limit: toStringValue(args.init_pc_amount),
+        vault0: accounts.pool_coin_token_account,
+        vault1: accounts.pool_pc_token_account,
+        mint0: accounts.coin_mint,
+        mint1: accounts.pc_mint,
+      };
+  }
+  return undefined;
+}
+
+export const raydiumAmmV4Decoder: ProtocolDecoder = {
+  protocol: PROTOCOL,
+  programIds: [
+    '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
+    // devnet
+    'HWy1jotHpo6UqeQxx49dpYYdQB8wj9Qk9MdxwjLvDHB8',
+  ],
+  decode(data: Buffer, accounts: string[]): DecodedInstruction | null {
+    if (data.length < 1) {
+      return null;
+    }
+
+    const tag = data[0];
+    const layouts = AMM_V4_LAYOUTS[tag];
+    if (!layouts) {
+      return null;
+    }
+
+    const layout =
+      layouts.find(candidate => candidate.accounts.length === accounts.length) || layouts[0];
+    const { args, accounts: namedAccounts } = decodeWithLayout(layout, data, 1, accounts);
+    return {
+      protocol: PROTOCOL,
+      discriminator: data.slice(0, 1).toString('hex'),
+      name: layout.name,
+      type: layout.type,
+      args,
+      accounts: namedAccounts,
+      event: toEvent(layout.name, args, namedAccounts),
+    };
+  },
+};
@@ -0,0 +1,456 @@
+import { BorshType, BorshValue } from '../borsh';
+import { createAnchorDecoder, toStringValue } from './layout';
+import {
+  EventLayout,
+  InstructionLayout,
+  ProtocolDecoder,
+  ProtocolEvent,
+  SwapEventAmounts,
+} from './types';
+
+const CLMM_OPEN_POSITION_ARGS: [string, BorshType][] = [
+  ['tick_lower_index', 'i32'],
+  ['tick_upper_index', 'i32'],
+  ['tick_array_lower_start_index', 'i32'],
+  ['tick_array_upper_start_index', 'i32'],
+  ['liquidity', 'u128'],
+  ['amount_0_max', 'u64'],
+  ['amount_1_max', 'u64'],
+];
+
+const CLMM_SWAP_ARGS: [string, BorshType][] = [
+  ['amount', 'u64'],
+  ['other_amount_threshold', 'u64'],
+  ['sqrt_price_limit_x64', 'u128'],
+  ['is_base_input', 'bool'],
+];
+
+// Raydium CLMM 指令布局
+const CLMM_LAYOUTS: { [discriminator: string]: InstructionLayout } = {
+  f8c69e91e17587c8: {
+    name: 'swap',
+    type: 'swap',
+    args: CLMM_SWAP_ARGS,
+    accounts: [
+      'payer',
+      'amm_config',
+      'pool_state',
+      'input_token_account',
+      'output_token_account',
+      'input_vault',
+      'output_vault',
+      'observation_state',
+      'token_program',
+      'tick_array',
+    ],
+  },
+  '2b04ed0b1ac91e62': {
+    name: 'swap_v2',
+    type: 'swap',
+    args: CLMM_SWAP_ARGS,
+    accounts: [
+      'payer',
+      'amm_config',
+      'pool_state',
+      'input_token_account',
+      'output_token_account',
+      'input_vault',
+      'output_vault',
+      'observation_state',
+      'token_program',
+      'token_program_2022',
+      'memo_program',
+      'input_vault_mint',
+      'output_vault_mint',
+    ],
+  },
+  e992d18ecf6840bc: {
+    name: 'create_pool',
+    type: 'createPool',
+    args: [
+      ['sqrt_price_x64', 'u128'],
+      ['open_time', 'u64'],
+    ],
+    accounts: [
+      'pool_creator',
+      'amm_config',
+      'pool_state',
+      'token_mint_0',
+      'token_mint_1',
+      'token_vault_0',
+      'token_vault_1',
+      'observation_state',
+      'tick_array_bitmap',
+      'token_program_0',
+      'token_program_1',
+      'system_program',
+      'rent',
+    ],
+  },
+  '87802f4d0f98f031': {
+    name: 'open_position',
+    type: 'openPosition',
+    args: CLMM_OPEN_POSITION_ARGS,
+    accounts: [
+      'payer',
+      'position_nft_owner',
+      'position_nft_mint',
+      'position_nft_account',
+      'metadata_account',
+      'pool_state',
+      'protocol_position',
+      'tick_array_lower',
+      'tick_array_upper',
+      'personal_position',
+      'token_account_0',
+      'token_account_1',
+      'token_vault_0',
+      'token_vault_1',
+      'rent',
+      'system_program',
+      'token_program',
+      'associated_token_program',
+      'metadata_program',
+    ],
+  },
+  '4db84ad67056f1c7': {
+    name: 'open_position_v2',
+    type: 'openPosition',
+    args: [
+      ...CLMM_OPEN_POSITION_ARGS,
+      ['with_metadata', 'bool'],
+      ['base_flag', 'option<bool>'],
+    ],
+    accounts: [
+      'payer',
+      'position_nft_owner',
+      'position_nft_mint',
+      'position_nft_account',
+      'metadata_account',
+      'pool_state',
+      'protocol_position',
+      'tick_array_lower',
+      'tick_array_upper',
+      'personal_position',
+      'token_account_0',
+      'token_account_1',
+      'token_vault_0',
+      'token_vault_1',
+      'rent',
+      'system_program',
+      'token_program',
+      'associated_token_program',
+      'metadata_program',
+      'token_program_2022',
+      'vault_0_mint',
+      'vault_1_mint',
+    ],
+  },
+  '4dffae527d1dc92e': {
+    name: 'open_position_with_token22_nft',
+    type: 'openPosition',
+    args: [
+      ...CLMM_OPEN_POSITION_ARGS,
+      ['with_metadata', 'bool'],
+      ['base_flag', 'option<bool>'],
+    ],
+    accounts: [
+      'payer',
+      'position_nft_owner',
+      'position_nft_mint',
+      'position_nft_account',
+      'pool_state',
+      'protocol_position',
+      'tick_array_lower',
+      'tick_array_upper',
+      'personal_position',
+      'token_account_0',
+      'token_account_1',
+      'token_vault_0',
+      'token_vault_1',
+      'rent',
+      'system_program',
+      'token_program',
+      'associated_token_program',
+      'token_program_2022',
+      'vault_0_mint',
+      'vault_1_mint',
+    ],
+  },
+  '7b86510031446262': {
+    name: 'close_position',
+    type: 'closePosition',
+    args: [],
+    accounts: [
+      'nft_owner',
+      'position_nft_mint',
+      'position_nft_account',
+      'personal_position',
+      'system_program',
+      'token_program',
+    ],
+  },
+  '2e9cf3760dcdfbb2': {
+    name: 'increase_liquidity',
+    type: 'increaseLiquidity',
+    args: [
+      ['liquidity', 'u128'],
+      ['amount_0_max', 'u64'],
+      ['amount_1_max', 'u64'],
+    ],
+    accounts: [
+      'nft_owner',
+      'nft_account',
+      'pool_state',
+      'protocol_position',
+      'personal_position',
+      'tick_array_lower',
+      'tick_array_upper',
+      'token_account_0',
+      'token_account_1',
+      'token_vault_0',
+      'token_vault_1',
+      'token_program',
+    ],
+  },
+  '851d59df45eeb00a': {
+    name: 'increase_liquidity_v2',
+    type: 'increaseLiquidity',
+    args: [
+      ['liquidity', 'u128'],
+      ['amount_0_max', 'u64'],
+      ['amount_1_max', 'u64'],
+      ['base_flag', 'option<bool>'],
+    ],
+    accounts: [
+      'nft_owner',
+      'nft_account',
+      'pool_state',
+      'protocol_position',
+      'personal_position',
+      'tick_array_lower',
+      'tick_array_upper',
+      'token_account_0',
+      'token_account_1',
+      'token_vault_0',
+      'token_vault_1',
+      'token_program',
+      'token_program_2022',
+      'vault_0_mint',
+      'vault_1_mint',
+    ],
+  },
+  a026d06f685b2c01: {
+    name: 'decrease_liquidity',
+    type: 'decreaseLiquidity',
+    args: [
+      ['liquidity', 'u128'],
+      ['amount_0_min', 'u64'],
+      ['amount_1_min', 'u64'],
+    ],
+    accounts: [
+      'nft_owner',
+      'nft_account',
+      'personal_position',
+      'pool_state',
+      'protocol_position',
+      'token_vault_0',
+      'token_vault_1',
+      'tick_array_lower',
+      'tick_array_upper',
+      'recipient_token_account_0',
+      'recipient_token_account_1',
+      'token_program',
+    ],
+  },
+  '3a7fbc3e4f52c460': {
+    name: 'decrease_liquidity_v2',
+    type: 'decreaseLiquidity',
+    args: [
+      ['liquidity', 'u128'],
+      ['amount_0_min', 'u64'],
+      ['amount_1_min', 'u64'],
+    ],
+    accounts: [
+      'nft_owner',
+      'nft_account',
+      'personal_position',
+      'pool_state',
+      'protocol_position',
+      'token_vault_0',
+      'token_vault_1',
+      'tick_array_lower',
+      'tick_array_upper',
+      'recipient_token_account_0',
+      'recipient_token_account_1',
+      'token_program',
+      'token_program_2022',
+      'memo_program',
+      'vault_0_mint',
+      'vault_1_mint',
+    ],
+  },
+};
+
+// Raydium CLMM 事件布局
+const CLMM_EVENT_LAYOUTS: { [discriminator: string]: EventLayout } = {
+  '40c6cde8260871e2': {
+    name: 'SwapEvent',
+    fields: [
+      ['pool_state', 'pubkey'],
+      ['sender', 'pubkey'],
+      ['token_account_0', 'pubkey'],
+      ['token_account_1', 'pubkey'],
+      ['amount_0', 'u64'],
+      ['transfer_fee_0', 'u64'],
+      ['amount_1', 'u64'],
+      ['transfer_fee_1', 'u64'],
+      ['zero_for_one', 'bool'],
+      // swap 之后的价格、流动性和当前 tick
+      ['sqrt_price_x64', 'u128'],
+      ['liquidity', 'u128'],
+      ['tick', 'i32'],
+    ],
+  },
+  '7ef0afce9e58996b': {
+    name: 'LiquidityChangeEvent',
+    fields: [
+      ['pool_state', 'pubkey'],
+      ['tick', 'i32'],
+      ['tick_lower', 'i32'],
+      ['tick_upper', 'i32'],
+      ['liquidity_before', 'u128'],
+      ['liquidity_after', 'u128'],
+    ],
+  },
+};
+
+const PROTOCOL = 'raydium-clmm';
+
+function toEvent(
+  name: string,
+  args: { [key: string]: BorshValue },
+  accounts: { [role: string]: string }
+): ProtocolEvent | undefined {
+  switch (name) {
+    case 'swap':
+    case 'swap_v2': {
+      const exactIn = args.is_base_input !== false;
+      return {
+        type: 'swap',
+        protocol: PROTOCOL,
+        pool: accounts.pool_state,
+        swapType: exactIn ? 'exactIn' : 'exactOut',
+        inputAmount: String(exactIn ? args.amount : args.other_amount_threshold),
+        outputAmount: String(exactIn ? args.other_amount_threshold : args.amount),
+        owner: accounts.payer,
+        userInputAccount: accounts.input_token_account,
+        userOutputAccount: accounts.output_token_account,
+        inputVault: accounts.input_vault,
+        outputVault: accounts.output_vault,
+      };
+    }
+    case 'create_pool':
+      return {
+        type: 'createPool',
+        protocol: PROTOCOL,
+        pool: accounts.pool_state,
+        owner: accounts.pool_creator,
+        vault0: accounts.token_vault_0,
+        vault1: accounts.token_vault_1,
+        mint0: accounts.token_mint_0,
+        mint1: accounts.token_mint_1,
+      };
+    case 'open_position':
+    case 'open_position_v2':
+    case 'open_position_with_token22_nft':
+      return {
+        type: 'openPosition',
+        protocol: PROTOCOL,
+        pool: accounts.pool_state,
+        owner: accounts.position_nft_owner,
+        position: accounts.personal_position,
+        positionMint: accounts.position_nft_mint,
+        tickLower: args.tick_lower_index as number,
+        tickUpper: args.tick_upper_index as number,
+        liquidity: toStringValue(args.liquidity),
+        amount0Limit: toStringValue(args.amount_0_max),
+        amount1Limit: toStringValue(args.amount_1_max),
+        vault0: accounts.token_vault_0,
+        vault1: accounts.token_vault_1,
+        mint0: accounts.vault_0_mint,
+        mint1: accounts.vault_1_mint,
+      };
+    case 'close_position':
+      return {
+        type: 'closePosition',
+        protocol: PROTOCOL,
+        pool: '',
+        owner: accounts.nft_owner,
+        position: accounts.personal_position,
+        positionMint: accounts.position_nft_mint,
+      };
+    case 'increase_liquidity':
+    case 'increase_liquidity_v2':
+      return {
+        type: 'increaseLiquidity',
+        protocol: PROTOCOL,
+        pool: accounts.pool_state,
+        owner: accounts.nft_owner,
+        position: accounts.personal_position,
+        liquidity: toStringValue(args.liquidity),
+        amount0Limit: toStringValue(args.amount_0_max),
+        amount1Limit: toStringValue(args.amount_1_max),
+        vault0: accounts.token_vault_0,
+        vault1: accounts.token_vault_1,
+        mint0: accounts.vault_0_mint,
+        mint1: accounts.vault_1_mint,
+      };
+    case 'decrease_liquidity':
+    case 'decrease_liquidity_v2':
+      return {
+        type: 'decreaseLiquidity',
+        protocol: PROTOCOL,
+        pool: accounts.pool_state,
+        owner: accounts.nft_owner,
+        position: accounts.personal_position,
+        liquidity: toStringValue(args.liquidity),
+        amount0Limit: toStringValue(args.amount_0_min),
+        amount1Limit: toStringValue(args.amount_1_min),
+        vault0: accounts.token_vault_0,
+        vault1: accounts.token_vault_1,
+        mint0: accounts.vault_0_mint,
+        mint1: accounts.vault_1_mint,
+      };
+  }
+  return undefined;
+}
+
+// zero_for_one 为 true 时输入 token0、输出 token1
+function toSwapAmounts(
+  name: string,
+  fields: { [key: string]: BorshValue }
+): SwapEventAmounts | undefined {
+  if (name !== 'SwapEvent' || fields.zero_for_one === undefined) {
+    return undefined;
+  }
+  const [input, output] = fields.zero_for_one ? ['0', '1'] : ['1', '0'];
+  return {
+    inputAmount: String(fields[`amount_${input}`]),
+    outputAmount: String(fields[`amount_${output}`]),
+    inputTransferFee: String(fields[`transfer_fee_${input}`]),
+    outputTransferFee: String(fields[`transfer_fee_${output}`]),
+  };
+}
+
+export const raydiumClmmDecoder: ProtocolDecoder = createAnchorDecoder(
+  PROTOCOL,
+  [
+    'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK',
+    // devnet
+    'devi51mZmdwUJGU9hjN27vEz64Gps7uUefqxg27EAtH',
+  ],
+  CLMM_LAYOUTS,
+  toEvent,
+  { layouts: CLMM_EVENT_LAYOUTS, toSwapAmounts }
+);
@@ -0,0 +1,271 @@
+import { BorshValue } from '../borsh';
+import { createAnchorDecoder, toStringValue } from './layout';
+import {
+  EventLayout,
+  InstructionLayout,
+  ProtocolDecoder,
+  ProtocolEvent,
+  SwapEventAmounts,
+} from './types';
+
+// Raydium CPMM 指令布局
+const CPMM_LAYOUTS: { [discriminator: string]: InstructionLayout } = {
+  '8fbe5adac41e33de': {
+    name: 'swap_base_input',
+    type: 'swap',
+    args: [
+      ['amount_in', 'u64'],
+      ['minimum_amount_out', 'u64'],
+    ],
+    accounts: [
+      'payer',
+      'authority',
+      'amm_config',
+      'pool_state',
+      'input_token_account',
+      'output_token_account',
+      'input_vault',
+      'output_vault',
+      'input_token_program',
+      'output_token_program',
+      'input_token_mint',
+      'output_token_mint',
+      'observation_state',
+    ],
+  },
+  '37d96256a34ab4ad': {
+    name: 'swap_base_output',
+    type: 'swap',
+    args: [
+      ['max_amount_in', 'u64'],
+      ['amount_out', 'u64'],
+    ],
+    accounts: [
+      'payer',
+      'authority',
+      'amm_config',
+      'pool_state',
+      'input_token_account',
+      'output_token_account',
+      'input_vault',
+      'output_vault',
+      'input_token_program',
+      'output_token_program',
+      'input_token_mint',
+      'output_token_mint',
+      'observation_state',
+    ],
+  },
+  f223c68952e1f2b6: {
+    name: 'deposit',
+    type: 'addLiquidity',
+    args: [
+      ['lp_token_amount', 'u64'],
+      ['maximum_token_0_amount', 'u64'],
+      ['maximum_token_1_amount', 'u64'],
+    ],
+    accounts: [
+      'owner',
+      'authority',
+      'pool_state',
+      'owner_lp_token',
+      'token_0_account',
+      'token_1_account',
+      'token_0_vault',
+      'token_1_vault',
+      'token_program',
+      'token_program_2022',
+      'vault_0_mint',
+      'vault_1_mint',
+      'lp_mint',
+    ],
+  },
+  b712469c946da122: {
+    name: 'withdraw',
+    type: 'removeLiquidity',
+    args: [
+      ['lp_token_amount', 'u64'],
+      ['minimum_token_0_amount', 'u64'],
+      ['minimum_token_1_amount', 'u64'],
+    ],
+    accounts: [
+      'owner',
+      'authority',
+      'pool_state',
+      'owner_lp_token',
+      'token_0_account',
+      'token_1_account',
+      'token_0_vault',
+      'token_1_vault',
+      'token_program',
+      'token_program_2022',
+      'vault_0_mint',
+      'vault_1_mint',
+      'lp_mint',
+      'memo_program',
+    ],
+  },
+  afaf6d1f0d989bed: {
+    name: 'initialize',
+    type: 'createPool',
+    args: [
+      ['init_amount_0', 'u64'],
+      ['init_amount_1', 'u64'],
+      ['open_time', 'u64'],
+    ],
+    accounts: [
+      'creator',
+      'amm_config',
+      'authority',
+      'pool_state',
+      'token_0_mint',
+      'token_1_mint',
+      'lp_mint',
+      'creator_token_0',
+      'creator_token_1',
+      'creator_lp_token',
+      'token_0_vault',
+      'token_1_vault',
+      'create_pool_fee',
+      'observation_state',
+      'token_program',
+      'token_0_program',
+      'token_1_program',
+      'associated_token_program',
+      'system_program',
+      'rent',
+    ],
+  },
+};
+
+// Raydium CPMM 事件布局，只列出各版本共有的字段
+const CPMM_EVENT_LAYOUTS: { [discriminator: string]: EventLayout } = {
+  '40c6cde8260871e2': {
+    name: 'SwapEvent',
+    fields: [
+      ['pool_id', 'pubkey'],
+      ['input_vault_before', 'u64'],
+      ['output_vault_before', 'u64'],
+      ['input_amount', 'u64'],
+      ['output_amount', 'u64'],
+      ['input_transfer_fee', 'u64'],
+      ['output_transfer_fee', 'u64'],
+      ['base_input', 'bool'],
+    ],
+  },
+  '79a3cdc939da753c': {
+    name: 'LpChangeEvent',
+    fields: [
+      ['pool_id', 'pubkey'],
+      ['lp_amount_before', 'u64'],
+      ['token_0_vault_before', 'u64'],
+      ['token_1_vault_before', 'u64'],
+      ['token_0_amount', 'u64'],
+      ['token_1_amount', 'u64'],
+      ['token_0_transfer_fee', 'u64'],
+      ['token_1_transfer_fee', 'u64'],
+      // 0 为存入，1 为取出
+      ['change_type', 'u8'],
+    ],
+  },
+};
+
+const PROTOCOL = 'raydium-cpmm';
+
+function toEvent(
+  name: string,
+  args: { [key: string]: BorshValue },
+  accounts: { [role: string]: string }
+): ProtocolEvent | undefined {
+  switch (name) {
+    case 'swap_base_input':
+    case 'swap_base_output': {
+      const exactIn = name === 'swap_base_input';
+      return {
+        type: 'swap',
+        protocol: PROTOCOL,
+        pool: accounts.pool_state,
+        swapType: exactIn ? 'exactIn' : 'exactOut',
+        inputAmount: String(exactIn ? args.amount_in : args.max_amount_in),
+        outputAmount: String(exactIn ? args.minimum_amount_out : args.amount_out),
+        owner: accounts.payer,
+        userInputAccount: accounts.input_token_account,
+        userOutputAccount: accounts.output_token_account,
+        inputVault: accounts.input_vault,
+        outputVault: accounts.output_vault,
+      };
+    }
+    case 'deposit':
+      return {
+        type: 'addLiquidity',
+        protocol: PROTOCOL,
+        pool: accounts.pool_state,
+        owner: accounts.owner,
+        lpMint: accounts.lp_mint,
+        liquidity: toStringValue(args.lp_token_amount),
+        amount0Limit: toStringValue(args.maximum_token_0_amount),
+        amount1Limit: toStringValue(args.maximum_token_1_amount),
+        vault0: accounts.token_0_vault,
+        vault1: accounts.token_1_vault,
+        mint0: accounts.vault_0_mint,
+        mint1: accounts.vault_1_mint,
+      };
+    case 'withdraw':
+      return {
+        type: 'removeLiquidity',
+        protocol: PROTOCOL,
+        pool: accounts.pool_state,
+        owner: accounts.owner,
+        lpMint: accounts.lp_mint,
+        liquidity: toStringValue(args.lp_token_amount),
+        amount0Limit: toStringValue(args.minimum_token_0_amount),
+        amount1Limit: toStringValue(args.minimum_token_1_amount),
+        vault0: accounts.token_0_vault,
+        vault1: accounts.token_1_vault,
+        mint0: accounts.vault_0_mint,
+        mint1: accounts.vault_1_mint,
+      };
+    case 'initialize':
+      return {
+        type: 'createPool',
+        protocol: PROTOCOL,
+        pool: accounts.pool_state,
+        owner: accounts.creator,
+        lpMint: accounts.lp_mint,
+        amount0Limit: toStringValue(args.init_amount_0),
+        amount1Limit: toStringValue(args.init_amount_1),
+        vault0: accounts.token_0_vault,
+        vault1: accounts.token_1_vault,
+        mint0: accounts.token_0_mint,
+        mint1: accounts.token_1_mint,
+      };
+  }
+  return undefined;
+}
+
+function toSwapAmounts(
+  name: string,
+  fields: { [key: string]: BorshValue }
+): SwapEventAmounts | undefined {
+  if (name !== 'SwapEvent' || fields.output_transfer_fee === undefined) {
+    return undefined;
+  }
+  return {
+    inputAmount: String(fields.input_amount),
+    outputAmount: String(fields.output_amount),
+    inputTransferFee: String(fields.input_transfer_fee),
+    outputTransferFee: String(fields.output_transfer_fee),
+  };
+}
+
+export const raydiumCpmmDecoder: ProtocolDecoder = createAnchorDecoder(
+  PROTOCOL,
+  [
+    'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C',
+    // devnet
+    'CPMDWBwJDtYax9qW7AyRuVC19Cc4L4Vcy4n2BHAbHkCW',
+  ],
+  CPMM_LAYOUTS,
+  toEvent,
+  { layouts: CPMM_EVENT_LAYOUTS, toSwapAmounts }
+);
@@ -0,0 +1,107 @@
+import { BorshType, BorshValue } from '../borsh';
+
+// 指令布局：参数按 IDL 顺序排列，账户按指令中的位置命名
+export interface InstructionLayout {
+  name: string;
+  type: string;
+  args: [string, BorshType][];
+  accounts: string[];
+}
+
+// Anchor 事件布局：emit! 以 `Program data: <base64>` 写入日志，前 8 字节为 discriminator，
+// 字段按 IDL 顺序排列
+export interface EventLayout {
+  name: string;
+  fields: [string, BorshType][];
+}
+
+// 池子的两个金库账户及对应 mint，按协议中 token0/token1（AMM v4 为 coin/pc，Whirlpool 为 A/B）的顺序；
+// 指令中没有的账户不填，mint 可以由交易的代币余额补全
+export interface PoolAccounts {
+  vault0?: string;
+  vault1?: string;
+  mint0?: string;
+  mint1?: string;
+}
+
+// 统一的 swap 事件，金额为指令参数中的原始整数（十进制字符串）
+export interface SwapInfo extends PoolAccounts {
+  type: 'swap';
+  protocol: string;
+  pool: string;
+  // exactIn：inputAmount 为输入金额，outputAmount 为最少输出
+  // exactOut：outputAmount 为输出金额，inputAmount 为最多输入
+  swapType: 'exactIn' | 'exactOut';
+  inputAmount: string;
+  outputAmount: string;
+  owner: string;
+  userInputAccount: string;
+  userOutputAccount: string;
+  inputVault?: string;
+  outputVault?: string;
+}
+
+// 统一的流动性事件（创建池子、添加/移除流动性、开仓/平仓）
+export interface LiquidityInfo extends PoolAccounts {
+  type:
+    | 'createPool'
+    | 'addLiquidity'
+    | 'removeLiquidity'
+    | 'openPosition'
+    | 'closePosition'
+    | 'increaseLiquidity'
+    | 'decreaseLiquidity';
+  protocol: string;
+  pool: string;
+  owner: string;
+  // CLMM / Whirlpool 仓位账户及仓位 NFT
+  position?: string;
+  positionMint?: string;
+  // CPMM / AMM v4 的 LP 代币
+  lpMint?: string;
+  tickLower?: number;
+  tickUpper?: number;
+  liquidity?: string;
+  // 指令参数中的金额上限（添加）或下限（移除）
+  amount0Limit?: string;
+  amount1Limit?: string;
+}
+
+export type ProtocolEvent = SwapInfo | LiquidityInfo;
+
+export interface DecodedInstruction {
+  protocol: string;
+  discriminator: string;
+  name: string;
+  type: string;
+  args: { [key: string]: BorshValue };
+  accounts: { [role: string]: string };
+  event?: ProtocolEvent;
+}
+
+// swap 事件中实际转入、转出池子的数量（最小单位），用于核对从余额变化还原的 swap；
+// 转账手续费为 Token-2022 代币的手续费，其他代币为 0
+export interface SwapEventAmounts {
+  inputAmount: string;
+  outputAmount: string;
+  inputTransferFee: string;
+  outputTransferFee: string;
+}
+
+// 从交易日志解码的程序事件
+export interface DecodedEvent {
+  protocol: string;
+  discriminator: string;
+  name: string;
+  fields: { [key: string]: BorshValue };
+  swap?: SwapEventAmounts;
+}
+
+// 协议解码插件，按程序 ID 注册到 DecoderRegistry
+export interface ProtocolDecoder {
+  protocol: string;
+  programIds: string[];
+  decode(data: Buffer, accounts: string[]): DecodedInstruction | null;
+  // 解码程序写入日志的事件，没有事件布局的协议不实现
+  decodeEvent?(data: Buffer): DecodedEvent | null;
+}
@@ -0,0 +1,188 @@
+import { EventEmitter } from 'events';
+import {
+  IndexedTransaction,
+  LiquidityRecord,
+  RecordStatus,
+  SwapRecord,
+  TokenBalanceChangeRecord,
+} from './storage';
+
+export const INDEXER_EVENT_TYPES = ['transaction', 'swap', 'liquidity', 'retraction'] as const;
+
+export type IndexerEventType = typeof INDEXER_EVENT_TYPES[number];
+
+interface EventBase {
+  // 同一事件重复推送（例如区块被重新处理）时 id 不变，可用于去重
+  id: string;
+  slot: number;
+  // provisional 的事件可能随后被 retraction 撤回
+  status: RecordStatus;
+}
+
+export interface TransactionEvent extends EventBase {
+  type: 'transaction';
+  signature: string;
+  blockTime: string | null;
+  data: {
+    programs: string[];
+    pools: string[];
+    swaps: number;
+    liquidityEvents: number;
+    balanceChanges: TokenBalanceChangeRecord[];
+  };
+}
+
+export interface SwapEvent extends EventBase {
+  type: 'swap';
+  signature: string;
+  blockTime: string | null;
+  data: SwapRecord;
+}
+
+export interface LiquidityEvent extends EventBase {
+  type: 'liquidity';
+  signature: string;
+  blockTime: string | null;
+  data: LiquidityRecord;
+}
+
+// 区块不在规范链上，之前推送的该区块的事件全部作废
+export interface RetractionEvent extends EventBase {
+  type: 'retraction';
+  data: {
+    signatures: string[];
+    retractedAt: string;
+  };
+}
+
+export type IndexerEvent = TransactionEvent | SwapEvent | LiquidityEvent | RetractionEvent;
+
+// 各条件之间为“且”，同一条件的多个值之间为“或”；未设置的条件不过滤
+export interface EventFilter {
+  types?: IndexerEventType[];
+  mints?: string[];
+  pools?: string[];
+  // swap 的交易者、流动性事件的所有者，或交易中余额发生变化的账户所有者
+  wallets?: string[];
+}
+
+// 区块写入后发布本区块的事件，推送通道（webhook、SSE）各自订阅
+export class EventBus extends EventEmitter {
+  publish(events: IndexerEvent[]) {
+    if (events.length > 0) {
+      this.emit('events', events);
+    }
+  }
+
+  subscribe(listener: (events: IndexerEvent[]) => void): () => void {
+    this.on('events', listener);
+    return () => this.off('events', listener);
+  }
+}
+
+// 按交易、swap、流动性事件的顺序生成一个区块的事件
+export function createBlockEvents(
+  slot: number,
+  status: RecordStatus,
+  transactions: IndexedTransaction[]
+): IndexerEvent[] {
+  const events: IndexerEvent[] = [];
+  for (const { transaction, swaps, pools, liquidityEvents, balanceChanges } of transactions) {
+    const signature = transaction.signature;
+    const base = { slot, status, signature, blockTime: transaction.blockTime };
+    events.push({
+      ...base,
+      id: `transaction:${signature}`,
+      type: 'transaction',
+      data: {
+        programs: transaction.programs,
+        pools: pools.map(pool => pool.address),
+        swaps: swaps.length,
+        liquidityEvents: liquidityEvents.length,
+        balanceChanges,
+      },
+    });
+    for (const swap of swaps) {
+      events.push({ ...base, id: eventId('swap', signature, swap), type: 'swap', data: swap });
+    }
+    for (const event of liquidityEvents) {
+      events.push({
+        ...base,
+        id: eventId('liquidity', signature, event),
+        type: 'liquidity',
+        data: event,
+      });
+    }
+  }
+  return events;
+}
+
+export function createRetractionEvent(
+  slot: number,
+  signatures: string[],
+  retractedAt: string
+): RetractionEvent {
+  return {
+    id: `retraction:${slot}:${retractedAt}`,
+    type: 'retraction',
+    slot,
+    status: 'final',
+    data: { signatures, retractedAt },
+  };
+}
+
+// retraction 事件不包含代币和账户信息，只按类型过滤
+export function matchesFilter(event: IndexerEvent, filter: EventFilter): boolean {
+  if (filter.types && !filter.types.includes(event.type)) {
+    return false;
+  }
+  if (event.type === 'retraction') {
+    return true;
+  }
+
+  const keys = eventKeys(event);
+  return (
+    matchesAny(filter.mints, keys.mints) &&
+    matchesAny(filter.pools, keys.pools) &&
+    matchesAny(filter.wallets, keys.wallets)
+  );
+}
+
+export function isIndexerEventType(value: string): value is IndexerEventType {
+  return (INDEXER_EVENT_TYPES as readonly string[]).includes(value);
+}
+
+function eventId(
+  type: string,
+  signature: string,
+  record: { outerIndex: number; innerIndex?: number }
+): string {
+  return `${type}:${signature}:${record.outerIndex}:${record.innerIndex ?? -1}`;
+}
+
+function eventKeys(event: TransactionEvent | SwapEvent | LiquidityEvent) {
+  switch (event.type) {
+    case 'swap':
+      return {
+        mints: [event.data.inputMint, event.data.outputMint],
+        pools: [event.data.pool],
+        wallets: [event.data.trader],
+      };
+    case 'liquidity':
+      return {
+        mints: [event.data.token0Mint, event.data.token1Mint],
+        pools: [event.data.pool],
+        wallets: [event.data.owner],
+      };
+    case 'transaction':
+      return {
+        mints: event.data.balanceChanges.map(change => change.mint),
+        pools: event.data.pools,
+        wallets: event.data.balanceChanges.map(change => change.owner),
+      };
+  }
+}
+
+function matchesAny(expected: string[] | undefined, actual: (string | undefined)[]): boolean {
+  return !expected || expected.some(value => actual.includes(value));
+}
@@ -0,0 +1,122 @@
+import { CheckpointStore } from './checkpoint';
+import { RpcPool } from './rpc';
+
+// 单次扫描的最大区块范围，避免一次 getBlocks 返回过多数据
+const MAX_SCAN_RANGE = 1000;
+const BASE_RETRY_DELAY = 5000;
+const MAX_RETRY_DELAY = 5 * 60 * 1000;
+
+interface RetryState {
+  attempts: number;
+  nextAttemptAt: number;
+}
+
+// 检查点之后、已调度的最高区块之前的缺口：
+// - getBlocks 中不存在的区块为 leader 跳过的区块，直接记为已完成
+// - 存在但未处理完成的区块（onSlotChange 漏掉、重连期间丢失或重试后仍失败）按退避时间重新处理
+export class GapTracker {
+  private retries = new Map<number, RetryState>();
+  private scanning = false;
+  private scanInterval?: NodeJS.Timeout;
+
+  constructor(
+    // 经过限速、Retry-After 退避和节点切换，主节点不可用时扫描仍能进行
+    private rpc: RpcPool,
+    private checkpoint: CheckpointStore,
+    private processSlot: (slot: number) => Promise<void>,
+    // 历史/实时模式已经调度过的最高区块，只扫描该区块之前的缺口
+    private getScheduledSlot: () => number | null,
+    private debug: boolean
+  ) {}
+
+  start(intervalMs = 15000) {
+    this.scanInterval = setInterval(() => {
+      this.scan().catch(error => {
+        console.error('扫描区块缺口失败:', error instanceof Error ? error.message : String(error));
+      });
+    }, intervalMs);
+  }
+
+  stop() {
+    if (this.scanInterval) {
+      clearInterval(this.scanInterval);
+    }
+  }
+
+  getPendingRetries(): number[] {
+    return Array.from(this.retries.keys()).sort((a, b) => a - b);
+  }
+
+  async scan(): Promise<void> {
+    if (this.scanning) {
+      return;
+    }
+
+    const lastProcessedSlot = this.checkpoint.getLastProcessedSlot();
+    const scheduledSlot = this.getScheduledSlot();
+    if (lastProcessedSlot === null || scheduledSlot === null) {
+      return;
+    }
+
+    this.scanning = true;
+    try {
+      // getBlocks 只返回已 confirmed 的区块，不能扫描比 confirmed 更新的区块
+      const confirmedSlot = await this.rpc.request(connection => connection.getSlot('confirmed'));
+      const from = lastProcessedSlot + 1;
+      const to = Math.min(scheduledSlot, confirmedSlot, from + MAX_SCAN_RANGE - 1);
+      if (from > to) {
+        return;
+      }
+
+      const missing: number[] = [];
+      for (let slot = from; slot <= to; slot++) {
+        if (!this.checkpoint.isCompleted(slot) && !this.checkpoint.isInFlight(slot)) {
+          missing.push(slot);
+        }
+      }
+      if (missing.length === 0) {
+        return;
+      }
+
+      const produced = new Set(
+        await this.rpc.request(connection => connection.getBlocks(from, to))
+      );
+      const skipped = missing.filter(slot => !produced.has(slot));
+      const missed = missing.filter(slot => produced.has(slot));
+
+      for (const slot of skipped) {
+        this.retries.delete(slot);
+        this.checkpoint.markCompleted(slot);
+      }
+      if (this.debug && skipped.length > 0) {
+        console.log(`跳过的 leader 区块: ${skipped.length} 个`);
+      }
+
+      if (missed.length > 0) {
+        console.log(`发现遗漏的区块 ${missed.length} 个，开始补齐: ${missed[0]} ... ${missed[missed.length - 1]}`);
+      }
+
+      const now = Date.now();
+      for (const slot of missed) {
+        const state = this.retries.get(slot) || { attempts: 0, nextAttemptAt: 0 };
+        if (state.nextAttemptAt > now) continue;
+
+        try {
+          await this.processSlot(slot);
+          this.retries.delete(slot);
+        } catch (error) {
+          state.attempts += 1;
+          state.nextAttemptAt =
+            Date.now() + Math.min(BASE_RETRY_DELAY * Math.pow(2, state.attempts - 1), MAX_RETRY_DELAY);
+          this.retries.set(slot, state);
+          console.error(
+            `补齐区块 ${slot} 失败（第 ${state.attempts} 次）:`,
+            error instanceof Error ? error.message : String(error)
+          );
+        }
+      }
+    } finally {
+      this.scanning = false;
+    }
+  }
+}
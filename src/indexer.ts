@@ -0,0 +1,868 @@
+import {
+  Connection,
+  PublicKey,
+} from '@solana/web3.js';
+import retry from 'retry';
+import { Logger } from './logger';
+import { createLogSink } from './sinks';
+import { CheckpointStore } from './checkpoint';
+import { IndexerConfig } from './config';
+import { ApiServer, HealthStatus, IndexerStatus } from './api';
+import { createBlockEvents, createRetractionEvent, EventBus } from './events';
+import { GapTracker } from './gaps';
+import { Gauge, IndexerMetrics } from './metrics';
+import { RpcPool, rpcEndpointLabel } from './rpc';
+import { settleWithin } from './shutdown';
+import { Block, BlockSource, createBlockSource, ReplayBlockSource } from './sources';
+import { SlotReconciler, RetractionEvent } from './reconciler';
+import { IndexedTransaction, SqliteStorage } from './storage';
+import { createDefaultDecoderRegistry, DecoderRegistry } from './decoders';
+import { BlockTransaction, parseTransaction, ParsedTransaction } from './parser';
+import { Cluster, TokenMetadataResolver } from './tokens';
+import { WalletWatchlists } from './wallets';
+import { WebhookDispatcher } from './webhooks';
+
+// 类型定义
+interface SlotInfo {
+  slot: number;
+  parent?: number;
+  root?: number;
+}
+
+// 有界处理（backfill / replay）的结果
+export interface SlotRunResult {
+  processed: number;
+  skipped: number;
+  failed: number[];
+  // 收到退出信号，没有处理完全部区块
+  interrupted: boolean;
+}
+
+export interface InspectedBlock {
+  block: Block;
+  transactions: { parsed: ParsedTransaction; tx: BlockTransaction }[];
+}
+
+export class SolanaIndexer {
+  private cluster: Cluster;
+  private connection: Connection;
+  private rpc: RpcPool;
+  private source: BlockSource;
+  private tokens: TokenMetadataResolver;
+  private watchlists: WalletWatchlists;
+  private watchedWallets: Set<string>;
+  // 历史模式同时处理的区块数，实际吞吐由各节点的速率限制决定
+  private fetchConcurrency: number;
+  private checkpoint: CheckpointStore;
+  private decoders: DecoderRegistry;
+  private storage: SqliteStorage;
+  private reconciler: SlotReconciler;
+  // 目标确认级别：finalized 时先以 confirmed 写入临时记录，区块 finalized 后再转为最终状态
+  private commitment: 'confirmed' | 'finalized';
+  private watchedPrograms: PublicKey[];
+  private debug: boolean;
+  private logger: Logger;
+  // 运行日志的输出，inspect 命令指向标准错误，使标准输出只包含 JSON
+  private output: Console;
+  private startSlot: number;
+  private currentSlot: number;
+  // 已处理完成的最高区块和节点最新区块，用于计算落后区块数
+  private highestProcessedSlot: number | null = null;
+  private chainSlot: number | null = null;
+  // 历史/实时模式已经调度过的最高区块，缺口扫描只检查该区块之前的范围
+  private scheduledSlot: number | null = null;
+  private gapTracker: GapTracker;
+  private api: ApiServer;
+  // 区块写入后发布事件，由 webhook 和 SSE 推送
+  private events = new EventBus();
+  private webhooks: WebhookDispatcher;
+  private healthCheckInterval?: NodeJS.Timeout;
+  private metrics = new IndexerMetrics();
+  private startedAt = Date.now();
+  // 最近一次有区块处理完成的时间，用于判断索引是否停滞
+  private lastProgressAt: number | null = null;
+  private connectionHealthy = false;
+  // 超过该时间没有区块处理完成视为停滞，/healthz 返回 503
+  private stallTimeoutMs: number;
+  // 落后区块数不超过该值时 /readyz 返回 200
+  private readyMaxLag: number;
+  private apiPort: number;
+  // 收到退出信号后等待处理中的区块和 webhook 的最长时间
+  readonly shutdownTimeoutMs: number;
+  private apiStarted = false;
+  private slotSubscriptionId?: number;
+  // 开始关闭后不再领取新的区块
+  private stopping = false;
+  // 数据库已关闭，超时未完成的区块不再写入，也不更新检查点
+  private closed = false;
+  private closing?: Promise<void>;
+  // 正在处理的区块，关闭时等待其写入完成
+  private inFlight = new Map<number, Promise<void>>();
+
+  constructor(config: IndexerConfig, output: Console = console) {
+    this.cluster = config.cluster;
+    this.output = output;
+    this.output.log('使用 RPC 节点:', config.rpc.urls.map(rpcEndpointLabel));
+
+    this.rpc = new RpcPool({
+      urls: config.rpc.urls,
+      wsEndpoint: config.rpc.wsUrl,
+      requestsPerSecond: config.rpc.rateLimit,
+      maxRetries: config.rpc.maxRetries,
+      output,
+      onRequest: (url, outcome, latencyMs) => {
+        const labels = { endpoint: rpcEndpointLabel(url), outcome };
+        this.metrics.rpcRequests.inc(labels);
+        this.metrics.rpcDuration.observe(labels, latencyMs / 1000);
+      },
+    });
+    // 第一个节点负责 websocket 订阅和连接健康检查
+    this.connection = this.rpc.primary;
+    this.fetchConcurrency = config.rpc.fetchConcurrency;
+    // rpc：实时获取；record：获取的同时写入归档；replay：只从归档读取，不访问网络
+    this.source = createBlockSource(config.source.kind, this.rpc, config.source.archiveDir);
+    if (this.source.kind !== 'rpc') {
+      this.output.log('区块来源:', this.source.kind);
+    }
+
+    // 回放时不查询链上元数据，只使用登记表和缓存，保证结果可重复
+    this.tokens = new TokenMetadataResolver({
+      cluster: config.cluster,
+      registryFile: config.tokens.registryFile,
+      cacheFile: config.tokens.cacheFile,
+      fetchAccounts: this.source.kind === 'replay' || !config.tokens.lookup
+        ? undefined
+        : keys => this.rpc.request(connection => connection.getMultipleAccountsInfo(keys)),
+    });
+
+    this.watchlists = new WalletWatchlists(config.watchlists);
+    this.watchedWallets = this.watchlists.wallets();
+    if (this.watchlists.size > 0) {
+      this.output.log('监听钱包:', config.watchlists.map(watchlist => ({
+        列表: watchlist.name,
+        钱包数: watchlist.wallets.length,
+      })));
+    }
+
+    // 监听的程序可以指定解码器（例如部署在其他地址的同一协议）和生成记录的类别
+    this.decoders = createDefaultDecoderRegistry();
+    for (const program of config.programs) {
+      const decoder = program.decoder && this.decoders.getByProtocol(program.decoder);
+      if (decoder) {
+        this.decoders.register(decoder, { programIds: [program.id], events: program.events });
+      }
+    }
+    this.storage = new SqliteStorage(config.storage.sqlitePath);
+    this.api = new ApiServer(
+      this.storage,
+      () => this.getStatus(),
+      this.events,
+      this.metrics.registry,
+      () => this.getHealth()
+    );
+    this.stallTimeoutMs = config.health.stallSeconds * 1000;
+    this.readyMaxLag = config.health.readyMaxLag;
+    this.apiPort = config.api.port;
+    this.shutdownTimeoutMs = config.shutdown.timeoutMs;
+    this.metrics.registry.onCollect(() => this.collectMetrics());
+    this.webhooks = new WebhookDispatcher(config.webhooks.endpoints, this.storage, {
+      maxAttempts: config.webhooks.maxAttempts,
+      timeout: config.webhooks.timeout,
+    });
+    this.checkpoint = new CheckpointStore(config.storage.checkpointFile);
+    this.watchedPrograms = config.programs.map(program => new PublicKey(program.id));
+    if (this.watchedPrograms.length > 0) {
+      this.output.log('监听以下程序:', config.programs.map(program => ({
+        程序: program.id,
+        解码器: program.decoder,
+        记录: program.events,
+      })));
+    }
+
+    this.debug = config.debug;
+    this.logger = new Logger(createLogSink(config.logs.sinks, config.logs), this.debug);
+
+    // 回放时没有 finalized 信息，所有记录直接写为最终状态
+    this.commitment = this.source.kind === 'replay' ? 'confirmed' : config.commitment;
+    this.reconciler = new SlotReconciler(this.rpc, this.storage, this.debug);
+    this.reconciler.on('retraction', (event: RetractionEvent) => {
+      this.logger.logRetraction(event);
+      this.events.publish([createRetractionEvent(event.slot, event.signatures, event.retractedAt)]);
+    });
+    this.gapTracker = new GapTracker(
+      this.rpc,
+      this.checkpoint,
+      slot => this.indexSlot({ slot }),
+      () => this.scheduledSlot,
+      this.debug
+    );
+
+    this.startSlot = this.checkpoint.getResumeSlot(config.startSlot);
+    this.currentSlot = this.startSlot;
+  }
+
+  // 从检查点追到最新区块后持续监听新区块，只有实时模式读写检查点、推送事件和启动查询接口
+  async live(): Promise<void> {
+    if (this.source instanceof ReplayBlockSource) {
+      throw new Error('实时模式不支持 BLOCK_SOURCE=replay，请使用 replay 子命令');
+    }
+    this.output.log('启动 Solana 索引服务...');
+
+    this.checkpoint.initialize(this.startSlot);
+    const recovered = this.checkpoint.getRecoveredInFlightSlots();
+    if (recovered.length > 0) {
+      this.output.log('上次退出时未完成的区块，将重新处理:', recovered);
+    }
+    this.output.log(`将从区块高度 ${this.startSlot} 开始监听`);
+
+    this.webhooks.start(this.events);
+    if (this.apiPort > 0) {
+      await this.api.start(this.apiPort);
+      this.apiStarted = true;
+    }
+    
+    const operation = retry.operation({
+      retries: 5,
+      factor: 2,
+      minTimeout: 2000,
+      maxTimeout: 10000,
+    });
+
+    operation.attempt(async (currentAttempt) => {
+      if (this.stopping) {
+        return;
+      }
+      try {
+        await this.testConnection();
+        if (this.commitment === 'finalized') {
+          await this.reconciler.start();
+        }
+        this.gapTracker.start();
+        // 启动期间收到退出信号时，停止刚启动的定时任务
+        if (this.stopping) {
+          this.stopIntake();
+          return;
+        }
+        this.output.log(`开始处理区块 ${this.startSlot}...`);
+        await this.processHistoricalBlocks();
+        if (!this.stopping) {
+          this.subscribeToBlocks();
+        }
+      } catch (error) {
+        this.output.error(`尝试 ${currentAttempt} 失败:`, error instanceof Error ? error.message : String(error));
+        if (this.stopping) {
+          return;
+        }
+        if (operation.retry(error as Error)) {
+          return;
+        }
+        this.output.error('索引服务启动失败，已达到最大重试次数');
+        process.exit(1);
+      }
+    });
+  }
+
+  private async testConnection(): Promise<void> {
+    try {
+      const version = await this.connection.getVersion();
+      const slot = await this.source.getSlot();
+      this.chainSlot = slot;
+      this.connectionHealthy = true;
+
+      this.output.log('已连接到 Solana 节点:', {
+        版本: version['solana-core'],
+        当前区块: slot,
+        网络: this.cluster
+      });
+    } catch (error) {
+      throw new Error(`连接测试失败: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  private subscribeToBlocks(): void {
+    this.output.log('开始监听新区块...');
+
+    if (this.debug) {
+      this.connection.onSlotUpdate((slotUpdate) => {
+        this.output.log('Slot 更新:', {
+          type: slotUpdate.type,
+          slot: slotUpdate.slot,
+          timestamp: new Date().toISOString()
+        });
+      });
+    }
+
+    this.slotSubscriptionId = this.source.onSlotChange((slotInfo) => {
+      this.chainSlot = Math.max(this.chainSlot ?? 0, slotInfo.slot);
+      if (this.commitment === 'finalized' && slotInfo.root !== undefined) {
+        this.reconciler.onRoot(slotInfo.root).catch(error => {
+          this.output.error('确认区块状态失败:', error.message);
+        });
+      }
+
+      // onSlotChange 可能跳过部分区块，从上次调度的区块开始依次处理到通知的区块；
+      // 落后太多（例如 websocket 重连）时只处理最新区块，其余交给缺口扫描补齐
+      const MAX_LIVE_CATCH_UP = 20;
+      let from = this.scheduledSlot === null ? slotInfo.slot : this.scheduledSlot + 1;
+      if (slotInfo.slot - from > MAX_LIVE_CATCH_UP) {
+        from = slotInfo.slot;
+      }
+      for (let slot = from; slot <= slotInfo.slot; slot++) {
+        if (this.checkpoint.isCompleted(slot) || this.checkpoint.isInFlight(slot)) continue;
+        this.indexSlot({ slot }).catch(error => {
+          // 失败的区块由缺口扫描重试
+          if (!error.message.includes('Block not available')) {
+            this.output.error('处理区块错误:', error.message);
+          }
+        });
+      }
+    });
+
+    this.healthCheckInterval = setInterval(async () => {
+      try {
+        this.chainSlot = await this.source.getSlot();
+        this.connectionHealthy = true;
+        if (this.debug) {
+          this.output.log('连接状态: 正常');
+        }
+      } catch (error) {
+        this.connectionHealthy = false;
+        this.output.error('连接状态: 异常 -', error instanceof Error ? error.message : String(error));
+      }
+    }, 30000);
+  }
+
+  private async processHistoricalBlocks(): Promise<void> {
+    try {
+      let latestSlot = await this.source.getSlot();
+      this.chainSlot = latestSlot;
+      this.output.log(`当前最新区块: ${latestSlot}, 开始处理从 ${this.currentSlot} 到 ${latestSlot} 的区块`);
+
+      // 处理期间链上会继续出块，追到距最新区块不足一轮并发数后再切换到实时模式
+      while (!this.stopping && latestSlot - this.currentSlot >= this.fetchConcurrency) {
+        await this.processSlotRange(this.currentSlot, latestSlot);
+
+        this.currentSlot = latestSlot + 1;
+        latestSlot = await this.source.getSlot();
+        this.chainSlot = latestSlot;
+      }
+
+      this.output.log(this.stopping ? '历史区块处理已停止' : '历史区块处理完成');
+    } catch (error) {
+      this.output.error('处理历史区块时发生错误:', error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  // 固定数量的 worker 依次领取区块，一个区块完成后立即开始下一个，
+  // 不再按批次等待最慢的区块
+  private async processSlotRange(from: number, to: number): Promise<void> {
+    let nextSlot = from;
+    let processed = 0;
+
+    const worker = async () => {
+      while (!this.stopping && nextSlot <= to) {
+        const slot = nextSlot++;
+        if (this.checkpoint.isCompleted(slot) || this.checkpoint.isInFlight(slot)) continue;
+
+        await this.indexSlot({ slot }).catch(error => {
+          if (!error.message.includes('Block not available')) {
+            this.output.error(`处理区块 ${slot} 失败:`, error.message);
+          }
+        });
+
+        processed += 1;
+        if (processed % 100 === 0) {
+          const progress = ((slot - this.startSlot) / (to - this.startSlot) * 100).toFixed(2);
+          this.output.log(`处理进度: ${progress}%`);
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: this.fetchConcurrency }, () => worker()));
+  }
+
+  // 按区块顺序依次处理归档中的全部区块，不读写检查点，结果可重复
+  async replay(): Promise<SlotRunResult> {
+    if (!(this.source instanceof ReplayBlockSource)) {
+      throw new Error('回放需要 BLOCK_SOURCE=replay');
+    }
+    const slots = this.source.getSlots();
+    this.output.log(`开始回放归档区块: ${slots.length} 个`);
+
+    const result: SlotRunResult = { processed: 0, skipped: 0, failed: [], interrupted: false };
+    for (const [index, slot] of slots.entries()) {
+      if (this.stopping) {
+        this.output.log(`回放已停止，剩余 ${slots.length - index} 个区块未处理`);
+        result.interrupted = true;
+        break;
+      }
+      try {
+        await this.processNewSlot({ slot });
+        this.highestProcessedSlot = slot;
+        result.processed += 1;
+      } catch (error) {
+        this.output.error(`回放区块 ${slot} 失败:`, error instanceof Error ? error.message : String(error));
+        result.failed.push(slot);
+      }
+    }
+
+    if (!result.interrupted) {
+      this.output.log('回放完成');
+    }
+    return result;
+  }
+
+  // 处理 [from, to] 范围内的区块（to 默认为节点最新区块），不读写检查点、不推送事件，
+  // 已经写入的区块按签名覆盖，可以重复执行
+  async backfill(from: number, to?: number): Promise<SlotRunResult> {
+    const lastSlot = to ?? await this.source.getSlot();
+    this.chainSlot = lastSlot;
+    if (this.commitment === 'finalized') {
+      await this.reconciler.start();
+    }
+    this.output.log(`开始处理区块 ${from} 到 ${lastSlot}`);
+
+    const result: SlotRunResult = { processed: 0, skipped: 0, failed: [], interrupted: false };
+    let nextSlot = from;
+    const worker = async () => {
+      while (!this.stopping && nextSlot <= lastSlot) {
+        const slot = nextSlot++;
+        try {
+          await this.processNewSlot({ slot });
+          result.processed += 1;
+          this.metrics.slots.inc({ result: 'processed' });
+        } catch (error) {
+          if (error instanceof Error && isSkippedSlotError(error)) {
+            result.skipped += 1;
+            this.metrics.slots.inc({ result: 'skipped' });
+            continue;
+          }
+          result.failed.push(slot);
+          this.metrics.slots.inc({ result: 'failed' });
+        }
+      }
+    };
+    try {
+      await Promise.all(Array.from({ length: this.fetchConcurrency }, () => worker()));
+    } finally {
+      this.reconciler.stop();
+    }
+
+    if (nextSlot <= lastSlot) {
+      result.interrupted = true;
+      this.output.log(`区块处理已停止，下一个未处理的区块为 ${nextSlot}`);
+    }
+    result.failed.sort((a, b) => a - b);
+    return result;
+  }
+
+  // 解析单笔交易，不写入数据库和日志；交易不存在时返回 undefined，
+  // 执行失败或不涉及监听程序的交易返回 null
+  async inspectTransaction(signature: string): Promise<ParsedTransaction | null | undefined> {
+    const tx = await this.rpc.request(connection =>
+      connection.getTransaction(signature, { maxSupportedTransactionVersion: 0 })
+    );
+    if (!tx) {
+      return undefined;
+    }
+
+    const parsed = parseTransaction(tx as BlockTransaction, {
+      slot: tx.slot,
+      blockTime: tx.blockTime ?? null,
+      decoders: this.decoders,
+      watchedPrograms: this.watchedPrograms,
+      watchedWallets: this.watchedWallets,
+      debug: this.debug,
+    });
+    if (parsed) {
+      await this.tokens.resolve(parsed.record.balanceChanges.map(change => change.mint));
+      this.tokens.annotate(parsed.record);
+      this.watchlists.annotate(parsed.record);
+    }
+    return parsed;
+  }
+
+  // 解析单个区块，不写入数据库和日志；区块不存在时返回 null，被跳过的区块抛出错误
+  async inspectSlot(slot: number): Promise<InspectedBlock | null> {
+    return this.parseBlock(slot);
+  }
+
+  // 收到退出信号时调用：停止领取新的区块，等待处理中的区块写入完成，再发送剩余的 webhook、
+  // 写出检查点、代币缓存和日志并关闭数据库，总共最多等待 timeoutMs。
+  // 超时未完成的区块保留在处理中列表，重启后重新处理。返回是否在超时前全部完成
+  async shutdown(timeoutMs = this.shutdownTimeoutMs): Promise<boolean> {
+    const deadline = Date.now() + timeoutMs;
+    this.stopIntake();
+
+    const slots = Array.from(this.inFlight.keys()).sort((a, b) => a - b);
+    let drained = true;
+    if (slots.length > 0) {
+      this.output.log(`等待 ${slots.length} 个处理中的区块完成...`);
+      drained = await settleWithin(Promise.all(this.inFlight.values()), timeoutMs);
+      if (!drained) {
+        const abandoned = Array.from(this.inFlight.keys()).sort((a, b) => a - b);
+        this.output.error('等待区块超时，以下区块将在重启后重新处理:', abandoned);
+      }
+    }
+
+    const flushed = await this.webhooks.flush(Math.max(deadline - Date.now(), 0));
+    await this.close();
+    this.output.log('索引服务已关闭');
+    return drained && flushed;
+  }
+
+  // 写出检查点，释放数据库、日志缓冲区和定时器，有界处理结束后或 shutdown 最后调用，重复调用无影响
+  close(): Promise<void> {
+    this.closing ??= this.release();
+    return this.closing;
+  }
+
+  private async release(): Promise<void> {
+    this.stopIntake();
+    this.webhooks.stop();
+    if (this.apiStarted) {
+      await this.api.stop();
+    }
+    this.closed = true;
+    this.checkpoint.flush();
+    this.storage.close();
+    // 写出代币元数据缓存和日志缓冲区中剩余的记录
+    await this.tokens.close();
+    await this.logger.close();
+  }
+
+  // 停止订阅和定时任务，各处理循环在当前区块完成后退出
+  private stopIntake() {
+    this.stopping = true;
+    if (this.slotSubscriptionId !== undefined) {
+      this.source.removeSlotChangeListener(this.slotSubscriptionId);
+      this.slotSubscriptionId = undefined;
+    }
+    this.reconciler.stop();
+    this.gapTracker.stop();
+    if (this.healthCheckInterval) {
+      clearInterval(this.healthCheckInterval);
+    }
+  }
+
+  // 处理单个区块并维护检查点
+  private async indexSlot(slotInfo: SlotInfo): Promise<void> {
+    if (this.stopping) {
+      return;
+    }
+    this.scheduledSlot = Math.max(this.scheduledSlot ?? 0, slotInfo.slot);
+    this.checkpoint.markInFlight(slotInfo.slot);
+    try {
+      await this.processNewSlot(slotInfo);
+      this.markSlotCompleted(slotInfo.slot);
+      this.metrics.slots.inc({ result: 'processed' });
+    } catch (error) {
+      // 关闭超时后放弃的区块保持处理中状态，重启后重新处理
+      if (this.closed) {
+        throw error;
+      }
+      // 被跳过的区块没有数据，视为已完成
+      if (error instanceof Error && isSkippedSlotError(error)) {
+        this.markSlotCompleted(slotInfo.slot);
+        this.metrics.slots.inc({ result: 'skipped' });
+        return;
+      }
+      this.checkpoint.markFailed(slotInfo.slot);
+      this.metrics.slots.inc({ result: 'failed' });
+      throw error;
+    }
+  }
+
+  private markSlotCompleted(slot: number) {
+    this.checkpoint.markCompleted(slot);
+    this.highestProcessedSlot = Math.max(this.highestProcessedSlot ?? 0, slot);
+    this.lastProgressAt = Date.now();
+  }
+
+  getStatus(): IndexerStatus {
+    const currentSlot = this.highestProcessedSlot ?? this.checkpoint.getLastProcessedSlot();
+    return {
+      lastProcessedSlot: this.checkpoint.getLastProcessedSlot(),
+      currentSlot,
+      chainSlot: this.chainSlot,
+      lag: currentSlot !== null && this.chainSlot !== null
+        ? Math.max(this.chainSlot - currentSlot, 0)
+        : null,
+      rpc: this.rpc.getStats(),
+    };
+  }
+
+  // 存活：最近 stallTimeoutMs 内有区块处理完成（启动后先给出同样的宽限时间）；
+  // 就绪：同时节点连接正常，且落后区块数不超过 readyMaxLag
+  getHealth(): HealthStatus {
+    const { lag } = this.getStatus();
+    const live = Date.now() - (this.lastProgressAt ?? this.startedAt) <= this.stallTimeoutMs;
+    return {
+      live,
+      ready: live && this.connectionHealthy && lag !== null && lag <= this.readyMaxLag,
+      lag,
+      lastProgressAt: this.lastProgressAt === null ? null : new Date(this.lastProgressAt).toISOString(),
+      connectionHealthy: this.connectionHealthy,
+    };
+  }
+
+  // /metrics 输出前读取当前状态
+  private collectMetrics() {
+    const status = this.getStatus();
+    const gauges: [Gauge, number | null][] = [
+      [this.metrics.lastProcessedSlot, status.lastProcessedSlot],
+      [this.metrics.currentSlot, status.currentSlot],
+      [this.metrics.chainSlot, status.chainSlot],
+      [this.metrics.slotLag, status.lag],
+    ];
+    for (const [gauge, value] of gauges) {
+      gauge.reset();
+      if (value !== null) {
+        gauge.set({}, value);
+      }
+    }
+    this.metrics.rpcCoolingDown.reset();
+    for (const endpoint of status.rpc) {
+      this.metrics.rpcCoolingDown.set(
+        { endpoint: endpoint.endpoint },
+        endpoint.coolingDown ? 1 : 0
+      );
+    }
+    this.metrics.webhookPending.set({}, this.webhooks.getPendingDeliveries());
+  }
+
+  // 记录正在处理的区块，关闭时等待其完成
+  private processNewSlot(slotInfo: SlotInfo): Promise<void> {
+    const task = this.writeSlot(slotInfo);
+    this.inFlight.set(slotInfo.slot, task);
+    const settled = () => {
+      if (this.inFlight.get(slotInfo.slot) === task) {
+        this.inFlight.delete(slotInfo.slot);
+      }
+    };
+    task.then(settled, settled);
+    return task;
+  }
+
+  private async writeSlot(slotInfo: SlotInfo): Promise<void> {
+    try {
+      const parsedBlock = await this.parseBlock(slotInfo.slot);
+      // 区块暂时获取不到时按失败处理，不能记为已完成；是否为跳过的区块由缺口扫描通过 getBlocks 判断
+      if (!parsedBlock) {
+        throw new Error(`Block not available for slot ${slotInfo.slot}`);
+      }
+      const { block } = parsedBlock;
+
+      // 本区块需要写入数据库的交易，区块处理完成后一次性写入
+      const indexed: IndexedTransaction[] = [];
+      for (const { parsed, tx } of parsedBlock.transactions) {
+        this.logTransaction(parsed, tx);
+        indexed.push(parsed.record);
+      }
+
+      if (this.closed) {
+        throw new Error(`索引服务已关闭，放弃写入区块 ${slotInfo.slot}`);
+      }
+
+      // 写入失败时抛出异常，区块不会被记为已完成
+      // 目标为 finalized 时，尚未 finalized 的区块先作为临时记录写入，等待确认
+      const status = this.commitment === 'confirmed' || this.reconciler.isFinalized(slotInfo.slot)
+        ? 'final'
+        : 'provisional';
+      this.storage.saveBlock({
+        slot: slotInfo.slot,
+        blockhash: block.blockhash,
+        parentSlot: block.parentSlot,
+        status,
+      }, indexed);
+      if (status === 'provisional') {
+        this.reconciler.track(slotInfo.slot);
+      }
+      this.metrics.transactions.inc({}, indexed.length);
+      this.metrics.swaps.inc({}, indexed.reduce((total, item) => total + item.swaps.length, 0));
+      this.metrics.liquidityEvents.inc(
+        {},
+        indexed.reduce((total, item) => total + item.liquidityEvents.length, 0)
+      );
+      this.events.publish(createBlockEvents(slotInfo.slot, status, indexed));
+    } catch (error) {
+      if (error instanceof Error && !error.message.includes('Block not available')) {
+        this.output.error(`处理区块 ${slotInfo.slot} 时发生错误:`, error.message);
+      }
+      throw error;
+    }
+  }
+
+  // 获取并解析区块中的交易，补充代币元数据
+  private async parseBlock(slot: number): Promise<InspectedBlock | null> {
+    const block = await this.source.getBlock(slot);
+    if (!block) {
+      return null;
+    }
+
+    const transactions: InspectedBlock['transactions'] = [];
+    for (const tx of block.transactions) {
+      try {
+        const parsed = parseTransaction(tx, {
+          slot,
+          blockTime: block.blockTime,
+          decoders: this.decoders,
+          watchedPrograms: this.watchedPrograms,
+          watchedWallets: this.watchedWallets,
+          debug: this.debug,
+          output: this.output,
+        });
+        if (parsed) {
+          transactions.push({ parsed, tx });
+          parsed.failures.forEach(reason => this.metrics.parseFailures.inc({ reason }));
+        }
+      } catch (error) {
+        this.metrics.parseFailures.inc({ reason: 'transaction_error' });
+        if (this.debug) {
+          this.output.error('处理交易时出错:', error instanceof Error ? error.message : String(error));
+        }
+      }
+    }
+
+    // 整个区块涉及的 mint 一次性解析元数据
+    await this.tokens.resolve(transactions.flatMap(({ parsed }) =>
+      parsed.record.balanceChanges.map(change => change.mint)
+    ));
+    transactions.forEach(({ parsed }) => {
+      this.tokens.annotate(parsed.record);
+      this.watchlists.annotate(parsed.record);
+    });
+    return { block, transactions };
+  }
+
+  // 记录交易、指令、swap 和代币余额变化日志
+  private logTransaction(parsed: ParsedTransaction, tx: BlockTransaction) {
+    const { info: txInfo } = parsed;
+    const meta = tx.meta!;
+
+    if (txInfo.instructions.length > 0) {
+      if (this.debug) {
+        this.output.log('监听程序交易:', txInfo);
+      }
+
+      // 记录交易基础信息
+      this.logger.logTransaction(txInfo);
+
+      for (const instruction of txInfo.instructions) {
+        // 记录指令信息
+        this.logger.logInstruction({
+          signature: txInfo.signature,
+          outerIndex: instruction.outerIndex,
+          innerIndex: instruction.innerIndex,
+          depth: instruction.depth,
+          programId: instruction.programId,
+          protocol: instruction.protocol,
+          type: instruction.type,
+          discriminator: instruction.discriminator,
+          name: instruction.name,
+          args: instruction.args,
+          accounts: instruction.namedAccounts,
+          event: instruction.event,
+          events: instruction.events,
+        });
+
+        if (instruction.type !== 'swap') {
+          const liquidityRecord = parsed.record.liquidityEvents.find(event =>
+            event.outerIndex === instruction.outerIndex && event.innerIndex === instruction.innerIndex
+          );
+          if (liquidityRecord) {
+            // 记录流动性事件详情
+            this.logger.logLiquidity({
+              ...liquidityRecord,
+              signature: txInfo.signature,
+              token0: liquidityRecord.token0Mint && this.tokens.label(liquidityRecord.token0Mint),
+              token1: liquidityRecord.token1Mint && this.tokens.label(liquidityRecord.token1Mint),
+              timestamp: txInfo.blockTime
+            });
+          }
+          continue;
+        }
+
+        // 记录 Swap 指令详情
+        this.logger.logDebug({
+          type: 'swap_instruction',
+          discriminator: instruction.discriminator,
+          accounts: instruction.accounts,
+          data: instruction.data,
+        });
+
+        const swapDetails = parsed.swaps.find(swap => swap.instruction === instruction)?.details;
+        if (swapDetails) {
+          const inputToken = this.tokens.get(swapDetails.inputTransfer.token);
+          const outputToken = this.tokens.get(swapDetails.outputTransfer.token);
+          const swapRecord = parsed.record.swaps.find(swap =>
+            swap.outerIndex === instruction.outerIndex && swap.innerIndex === instruction.innerIndex
+          );
+
+          // 记录 Swap 详情
+          this.logger.logSwap({
+            type: swapDetails.type,
+            signature: txInfo.signature,
+            outerIndex: instruction.outerIndex,
+            depth: instruction.depth,
+            trader: swapDetails.trader,
+            counterparty: swapDetails.counterparty,
+            pool: instruction.event?.pool,
+            input: {
+              token: this.tokens.label(swapDetails.inputTransfer.token),
+              mint: swapDetails.inputTransfer.token,
+              name: inputToken?.name,
+              amount: swapDetails.inputTransfer.amount,
+              uiAmount: swapDetails.inputTransfer.uiAmount,
+              decimals: swapDetails.inputTransfer.decimals,
+              from: swapDetails.inputTransfer.from,
+              to: swapDetails.inputTransfer.to,
+              reserve: swapRecord?.inputReserve
+            },
+            output: {
+              token: this.tokens.label(swapDetails.outputTransfer.token),
+              mint: swapDetails.outputTransfer.token,
+              name: outputToken?.name,
+              amount: swapDetails.outputTransfer.amount,
+              uiAmount: swapDetails.outputTransfer.uiAmount,
+              decimals: swapDetails.outputTransfer.decimals,
+              from: swapDetails.outputTransfer.from,
+              to: swapDetails.outputTransfer.to,
+              reserve: swapRecord?.outputReserve
+            },
+            price: swapDetails.price,
+            timestamp: txInfo.blockTime
+          });
+        } else if (this.debug) {
+          this.output.log('无法解析 swap 详情，原因可能是:', {
+            hasPreBalances: Boolean(meta.preTokenBalances),
+            hasPostBalances: Boolean(meta.postTokenBalances),
+            preBalancesLength: meta.preTokenBalances?.length,
+            postBalancesLength: meta.postTokenBalances?.length,
+          });
+        }
+      }
+    }
+
+    // 记录代币余额变化
+    if (meta.preTokenBalances || meta.postTokenBalances) {
+      const withSymbol = (balances: typeof meta.preTokenBalances) => (balances || []).map(balance => ({
+        ...balance,
+        symbol: this.tokens.get(balance.mint)?.symbol,
+      }));
+      this.logger.logTokenBalances({
+        pre: withSymbol(meta.preTokenBalances),
+        post: withSymbol(meta.postTokenBalances),
+        relevantLogs: meta.logMessages?.filter(log =>
+          log.includes('TransferChecked') ||
+          log.includes('SwapBaseInput')
+        )
+      });
+    }
+  }
+}
+
+// 判断 getBlock 的错误是否表示该区块被跳过（没有出块）
+export function isSkippedSlotError(error: Error): boolean {
+  return error.message.includes('was skipped') || error.message.includes('missing in long-term storage');
+} 
\ No newline at end of file
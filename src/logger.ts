@@ -1,31 +1,27 @@
-import * as fs from 'fs';
-import * as path from 'path';
+import { LogSink } from './sinks';
 
+// 按类别整理日志记录后交给 sink 输出；记录先进入缓冲区，不在区块处理中同步写文件
 export class Logger {
-  private static logDir = 'logs';
-  private static ensureLogDir() {
-    if (!fs.existsSync(this.logDir)) {
-      fs.mkdirSync(this.logDir);
-    }
+  constructor(private sink: LogSink, private debug = false) {}
+
+  // 写出缓冲区中的全部记录，退出前调用
+  flush(): Promise<void> {
+    return this.sink.flush();
+  }
+
+  close(): Promise<void> {
+    return this.sink.close();
   }
 
-  private static writeLog(filename: string, data: any) {
-    this.ensureLogDir();
-    const timestamp = new Date().toISOString();
-    const logEntry = {
-      timestamp,
+  private writeLog(stream: string, data: any) {
+    this.sink.write(stream, {
+      timestamp: new Date().toISOString(),
       ...data
-    };
-    
-    // 格式化 JSON 输出
-    fs.appendFileSync(
-      path.join(this.logDir, filename),
-      JSON.stringify(logEntry, null, 2) + '\n\n'  // 添加缩进和空行
-    );
+    });
   }
 
   // 交易基础信息
-  static logTransaction(data: any) {
+  logTransaction(data: any) {
     const formattedData = {
       timestamp: new Date().toISOString(),
       signature: data.signature,
@@ -34,11 +30,11 @@ export class Logger {
       programs: data.programs,
       accounts: data.accounts,
       meta: {
-        preTokenBalances: data.meta?.preTokenBalances,    
-        postTokenBalances: data.meta?.postTokenBalances,  
-        err: data.meta?.err,                             
-        logMessages: data.meta?.logMessages,             
-        status: data.meta?.status                        
+        preTokenBalances: data.meta?.preTokenBalances,
+        postTokenBalances: data.meta?.postTokenBalances,
+        err: data.meta?.err,
+        logMessages: data.meta?.logMessages,
+        status: data.meta?.status
       },
       instructions: data.instructions.map((inst: any) => ({
         programId: inst.programId,
@@ -50,55 +46,75 @@ export class Logger {
       logs: data.logs
     };
 
-    this.writeLog('transactions.log', formattedData);
+    this.writeLog('transactions', formattedData);
   }
 
   // Swap 操作详情
-  static logSwap(data: any) {
-    this.writeLog('swaps.log', {
+  logSwap(data: any) {
+    this.writeLog('swaps', {
       type: 'swap',
       data
     });
   }
 
+  // 流动性事件详情（创建池子、添加/移除流动性、开仓/平仓）
+  logLiquidity(data: any) {
+    this.writeLog('liquidity', {
+      type: 'liquidity',
+      data
+    });
+  }
+
   // 代币余额变化
-  static logTokenBalances(data: any) {
+  logTokenBalances(data: any) {
     // 简化余额信息，只保留关键字段
     const simplifiedData = {
       pre: data.pre.map((balance: any) => ({
+        accountIndex: balance.accountIndex,
         mint: balance.mint,
+        symbol: balance.symbol,
         owner: balance.owner,
         amount: balance.uiTokenAmount.uiAmountString
       })),
       post: data.post.map((balance: any) => ({
+        accountIndex: balance.accountIndex,
         mint: balance.mint,
+        symbol: balance.symbol,
         owner: balance.owner,
         amount: balance.uiTokenAmount.uiAmountString
       })),
       relevantLogs: data.relevantLogs
     };
 
-    this.writeLog('token_balances.log', {
+    this.writeLog('token_balances', {
       type: 'balance_change',
       data: simplifiedData
     });
   }
 
   // 指令信息
-  static logInstruction(data: any) {
-    // 只记录 swap 相关的指令
-    if (data.type === 'swap') {
-      this.writeLog('instructions.log', {
+  logInstruction(data: any) {
+    // 只记录解码出 swap 或流动性事件的指令
+    if (data.type) {
+      this.writeLog('instructions', {
         type: 'instruction',
         data
       });
     }
   }
 
+  // 因分叉被撤回的区块
+  logRetraction(data: any) {
+    this.writeLog('retractions', {
+      type: 'retraction',
+      data
+    });
+  }
+
   // 调试信息
-  static logDebug(data: any) {
-    if (process.env.DEBUG === 'true') {
-      this.writeLog('debug.log', {
+  logDebug(data: any) {
+    if (this.debug) {
+      this.writeLog('debug', {
         type: 'debug',
         data
       });
@@ -106,8 +122,8 @@ export class Logger {
   }
 
   // 记录区块交易信息
-  static logBlockTransactions(data: any) {
-    this.writeLog('block_transactions.log', {
+  logBlockTransactions(data: any) {
+    this.writeLog('block_transactions', {
       timestamp: new Date().toISOString(),
       slot: data.slot,
       blockTime: data.blockTime,
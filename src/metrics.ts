@@ -0,0 +1,184 @@
+type Labels = Record<string, string>;
+
+interface HistogramSeries {
+  labels: Labels;
+  // 每个上界对应的累计次数
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+// Prometheus 文本格式的指标，只实现索引服务用到的 counter / gauge / histogram
+abstract class Metric {
+  protected series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly type: string) {}
+
+  protected entry(labels: Labels) {
+    const key = formatLabels(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels, value: 0 };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  render(): string[] {
+    return Array.from(this.series.values()).map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`
+    );
+  }
+}
+
+export class Counter extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value = 1) {
+    this.entry(labels).value += value;
+  }
+}
+
+export class Gauge extends Metric {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number) {
+    this.entry(labels).value = value;
+  }
+
+  // 重新采集前清空，避免已经不存在的标签组合继续输出
+  reset() {
+    this.series.clear();
+  }
+}
+
+export class Histogram extends Metric {
+  private buckets = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, private bounds: number[]) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number) {
+    const key = formatLabels(labels);
+    let entry = this.buckets.get(key);
+    if (!entry) {
+      entry = { labels, counts: this.bounds.map(() => 0), sum: 0, count: 0 };
+      this.buckets.set(key, entry);
+    }
+    this.bounds.forEach((bound, index) => {
+      if (value <= bound) {
+        entry!.counts[index] += 1;
+      }
+    });
+    entry.sum += value;
+    entry.count += 1;
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const { labels, counts, sum, count } of this.buckets.values()) {
+      const bucket = (le: string, value: number) =>
+        `${this.name}_bucket${formatLabels({ ...labels, le })} ${value}`;
+      this.bounds.forEach((bound, index) => lines.push(bucket(String(bound), counts[index])));
+      lines.push(bucket('+Inf', count));
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: (() => void)[] = [];
+
+  counter(name: string, help: string): Counter {
+    return this.add(new Counter(name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.add(new Gauge(name, help));
+  }
+
+  histogram(name: string, help: string, bounds: number[]): Histogram {
+    return this.add(new Histogram(name, help, bounds));
+  }
+
+  // 输出前调用，用于从状态中读取 gauge 的当前值
+  onCollect(collector: () => void) {
+    this.collectors.push(collector);
+  }
+
+  render(): string {
+    this.collectors.forEach(collect => collect());
+    const lines: string[] = [];
+    for (const metric of this.metrics) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`);
+      lines.push(...metric.render());
+    }
+    return lines.join('\n') + '\n';
+  }
+
+  private add<T extends Metric>(metric: T): T {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  const escape = (value: string) =>
+    value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+  return `{${entries.map(([key, value]) => `${key}="${escape(value)}"`).join(',')}}`;
+}
+
+// 索引服务输出的全部指标
+export class IndexerMetrics {
+  readonly registry = new MetricsRegistry();
+  readonly slots = this.registry.counter(
+    'indexer_slots_total',
+    '处理的区块数，result 为 processed、skipped（leader 未出块）或 failed'
+  );
+  readonly transactions = this.registry.counter('indexer_transactions_total', '写入的交易数');
+  readonly swaps = this.registry.counter('indexer_swaps_total', '写入的 swap 数');
+  readonly liquidityEvents = this.registry.counter(
+    'indexer_liquidity_events_total',
+    '写入的流动性事件数'
+  );
+  readonly parseFailures = this.registry.counter(
+    'indexer_parse_failures_total',
+    '解析失败次数，按原因 reason 区分'
+  );
+  readonly rpcRequests = this.registry.counter(
+    'indexer_rpc_requests_total',
+    'RPC 请求数，outcome 为 success、rate_limited（429）或 error'
+  );
+  readonly rpcDuration = this.registry.histogram(
+    'indexer_rpc_request_duration_seconds',
+    'RPC 请求耗时（秒）',
+    [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10]
+  );
+  readonly rpcCoolingDown = this.registry.gauge(
+    'indexer_rpc_endpoint_cooling_down',
+    'RPC 节点是否因 429 或错误处于冷却中'
+  );
+  readonly lastProcessedSlot = this.registry.gauge(
+    'indexer_last_processed_slot',
+    '已连续处理完成的最高区块（检查点）'
+  );
+  readonly currentSlot = this.registry.gauge('indexer_current_slot', '已处理完成的最高区块');
+  readonly chainSlot = this.registry.gauge('indexer_chain_slot', '节点最新区块');
+  readonly slotLag = this.registry.gauge('indexer_slot_lag', '落后节点最新区块的区块数');
+  readonly webhookPending = this.registry.gauge(
+    'indexer_webhook_pending_deliveries',
+    '等待发送的 webhook 批次数'
+  );
+}
@@ -0,0 +1,646 @@
+import {
+  CompiledInnerInstruction,
+  MessageCompiledInstruction,
+  PublicKey,
+} from '@solana/web3.js';
+import bs58 from 'bs58';
+import { absBigInt, calculatePrice, formatUnits, PRICE_DECIMALS } from './amounts';
+import { BorshValue } from './borsh';
+import {
+  DecodedEvent,
+  DecoderRegistry,
+  LiquidityInfo,
+  ProtocolEvent,
+  SwapEventAmounts,
+} from './decoders';
+import { getPoolStates, poolReserve } from './pools';
+import { matchInvocations, parseProgramLogs } from './program-logs';
+import { Block } from './sources';
+import { IndexedTransaction, LiquidityRecord, SwapRecord } from './storage';
+
+export type BlockTransaction = Block['transactions'][number];
+
+// 按执行顺序展开的指令：顶层指令及其 CPI 内部指令
+export interface FlattenedInstruction {
+  programIdIndex: number;
+  accountKeyIndexes: number[];
+  data: Uint8Array;
+  // 所属顶层指令的下标
+  outerIndex: number;
+  // 在该顶层指令的内部指令中的下标，顶层指令为 undefined
+  innerIndex?: number;
+  // CPI 深度，顶层指令为 0；旧版本节点不返回 stackHeight，此时内部指令的深度未知
+  depth?: number;
+}
+
+export interface Instruction {
+  programId: string;
+  accounts: string[];
+  data: string;
+  type?: string;
+  discriminator?: string;
+  // 协议解码器输出：协议名称、指令名称、解析后的参数、按角色命名的账户以及统一事件
+  protocol?: string;
+  name?: string;
+  args?: { [key: string]: BorshValue };
+  namedAccounts?: { [role: string]: string };
+  event?: ProtocolEvent;
+  // 该指令的程序调用写入日志的事件（Anchor emit!），例如 CLMM 的 SwapEvent
+  events?: DecodedEvent[];
+  outerIndex: number;
+  innerIndex?: number;
+  // 深度未知时为 undefined，见 FlattenedInstruction
+  depth?: number;
+}
+
+export interface TransactionInfo {
+  signature: string;
+  slot: number;
+  blockTime: string | null;
+  programs: string[];
+  accounts: string[];
+  instructions: Instruction[];
+  logs?: string[];
+}
+
+// 单个代币账户在交易前后的余额变化
+export interface TokenAccountChange {
+  accountIndex: number;
+  account: string;
+  owner: string;
+  mint: string;
+  decimals: number;
+  // 最小单位
+  change: bigint;
+}
+
+export interface TokenTransfer {
+  token: string;
+  from: string;
+  to: string;
+  // 最小单位的整数字符串
+  amount: string;
+  // 按 decimals 换算后的精确小数字符串
+  uiAmount: string;
+  decimals: number;
+}
+
+export interface SwapDetails {
+  type: 'swap';
+  // 发起交易的钱包（交易签名者）
+  trader: string;
+  // 池子金库账户的 owner（池子 authority）
+  counterparty: string;
+  inputTransfer: TokenTransfer;
+  outputTransfer: TokenTransfer;
+  // 成交价格：每 1 个输入代币换得的输出代币数量（小数字符串，最多 PRICE_DECIMALS 位小数）
+  price: string;
+}
+
+export interface TokenBalance {
+  accountIndex: number;
+  mint: string;
+  owner?: string;
+  uiTokenAmount: {
+    amount: string;
+    decimals: number;
+    uiAmount: number | null;
+    uiAmountString: string;
+  };
+}
+
+export interface ParseContext {
+  slot: number;
+  blockTime: number | null;
+  decoders: DecoderRegistry;
+  // 为空时记录所有程序的交易
+  watchedPrograms: PublicKey[];
+  // 监听列表中的钱包：不涉及监听程序的交易只要改变了这些钱包的代币余额，也作为转账记录
+  watchedWallets?: Set<string>;
+  debug: boolean;
+  // 调试日志的输出，默认为 console
+  output?: Console;
+}
+
+export interface ParsedSwap {
+  instruction: Instruction;
+  // 无法从余额变化中还原 swap 时为 null
+  details: SwapDetails | null;
+}
+
+// unknown_instruction：已注册协议的程序，但指令不在解码器的布局表中；
+// instruction_error：解码指令时抛出异常；swap_unresolved：无法从余额变化还原 swap 的输入输出；
+// swap_event_mismatch：从余额变化还原的 swap 数量与程序日志中的 swap 事件不一致
+export type ParseFailureReason =
+  | 'unknown_instruction'
+  | 'instruction_error'
+  | 'swap_unresolved'
+  | 'swap_event_mismatch';
+
+export interface ParsedTransaction {
+  info: TransactionInfo;
+  swaps: ParsedSwap[];
+  // 交易中未能完整解析的指令，每条指令一项
+  failures: ParseFailureReason[];
+  // 写入数据库的记录
+  record: IndexedTransaction;
+}
+
+// 解析单笔交易；失败的交易、不完整的交易以及不涉及监听程序和监听钱包的交易返回 null
+export function parseTransaction(tx: BlockTransaction, context: ParseContext): ParsedTransaction | null {
+  if (!tx.meta || tx.meta.err) return null;
+  if (!tx.transaction || !tx.transaction.message) return null;
+
+  const log = context.output ?? console;
+  const transaction = tx.transaction;
+  const message = transaction.message;
+  // v0 交易需要通过 loadedAddresses 解析地址查找表中的账户
+  const accountKeys = message.getAccountKeys({
+    accountKeysFromLookups: tx.meta.loadedAddresses,
+  });
+
+  if (!accountKeys || !message.compiledInstructions) {
+    if (context.debug) {
+      log.log('跳过不完整的交易数据');
+    }
+    return null;
+  }
+
+  const flattened = flattenInstructions(
+    message.compiledInstructions,
+    tx.meta.innerInstructions || []
+  );
+
+  const programIds = new Set<string>();
+  flattened.forEach(ix => {
+    if (ix.programIdIndex !== undefined) {
+      const programId = accountKeys.get(ix.programIdIndex);
+      if (programId) {
+        programIds.add(programId.toBase58());
+      }
+    }
+  });
+
+  const relevantPrograms = context.watchedPrograms.length === 0
+    ? Array.from(programIds)
+    : Array.from(programIds).filter(programId =>
+      context.watchedPrograms.some(watchedId =>
+        watchedId.toBase58() === programId
+      )
+    );
+
+  const info: TransactionInfo = {
+    signature: transaction.signatures[0],
+    slot: context.slot,
+    blockTime: context.blockTime ? new Date(context.blockTime * 1000).toISOString() : null,
+    programs: relevantPrograms,
+    accounts: Array.from({ length: accountKeys.length }, (_, i) => accountKeys.get(i)?.toBase58() || '').filter(Boolean),
+    instructions: [],
+  };
+
+  if (relevantPrograms.length === 0) {
+    return parseWalletTransfer(tx, info, context.watchedWallets);
+  }
+
+  const instructions: Instruction[] = [];
+  const failures: ParseFailureReason[] = [];
+  for (const ix of flattened) {
+    try {
+      if (ix.programIdIndex === undefined || !ix.accountKeyIndexes || !ix.data) continue;
+
+      const programId = accountKeys.get(ix.programIdIndex);
+      if (!programId) continue;
+
+      const instruction: Instruction = {
+        programId: programId.toBase58(),
+        accounts: ix.accountKeyIndexes.map(idx => {
+          const account = accountKeys.get(idx);
+          return account ? account.toBase58() : '';
+        }).filter(Boolean),
+        data: Buffer.from(ix.data).toString('hex'),
+        outerIndex: ix.outerIndex,
+        innerIndex: ix.innerIndex,
+        depth: ix.depth,
+      };
+
+      const decoded = context.decoders.decode(
+        instruction.programId,
+        Buffer.from(ix.data),
+        instruction.accounts
+      );
+      if (decoded) {
+        if (context.debug) {
+          log.log(
+            `识别到 ${decoded.protocol} ${decoded.type} 指令, discriminator: ${decoded.discriminator}`
+          );
+        }
+        instruction.protocol = decoded.protocol;
+        instruction.type = decoded.type;
+        instruction.discriminator = decoded.discriminator;
+        instruction.name = decoded.name;
+        instruction.args = decoded.args;
+        instruction.namedAccounts = decoded.accounts;
+        instruction.event = decoded.event;
+      } else if (context.decoders.get(instruction.programId)) {
+        failures.push('unknown_instruction');
+      }
+
+      instructions.push(instruction);
+    } catch (error) {
+      failures.push('instruction_error');
+      if (context.debug) {
+        log.error('解析指令时出错:', error instanceof Error ? error.message : String(error));
+      }
+      continue;
+    }
+  }
+
+  if (instructions.length > 0) {
+    info.instructions = instructions;
+    info.logs = tx.meta.logMessages || [];
+  }
+
+  // 程序写入日志的事件按调用栈对应到指令
+  const { invocations } = parseProgramLogs(tx.meta.logMessages || []);
+  matchInvocations(instructions, invocations).forEach((invocation, index) => {
+    const instruction = instructions[index];
+    const events = (invocation?.data || [])
+      .map(data => context.decoders.decodeEvent(instruction.programId, data))
+      .filter((event): event is DecodedEvent => event !== null);
+    if (events.length > 0) {
+      instruction.events = events;
+    }
+  });
+
+  const tokenChanges = getTokenAccountChanges(
+    (tx.meta.preTokenBalances || []) as TokenBalance[],
+    (tx.meta.postTokenBalances || []) as TokenBalance[],
+    info.accounts
+  );
+  const pools = getPoolStates(
+    instructions,
+    (tx.meta.postTokenBalances || []) as TokenBalance[],
+    info.accounts
+  );
+
+  const swaps: ParsedSwap[] = [];
+  const swapRecords: SwapRecord[] = [];
+  for (const instruction of instructions) {
+    if (instruction.type !== 'swap' || !context.decoders.emits(instruction.programId, 'swap')) continue;
+
+    const details = parseSwapInstruction(instruction, tx, info.accounts, context.debug, log);
+    swaps.push({ instruction, details });
+    if (!details) {
+      failures.push('swap_unresolved');
+      continue;
+    }
+
+    // 程序事件中的数量是实际成交数量，用于检查余额变化还原的结果
+    const swapEvent = instruction.events?.find(event => event.swap)?.swap;
+    if (swapEvent && !matchesSwapEvent(details, swapEvent)) {
+      failures.push('swap_event_mismatch');
+      if (context.debug) {
+        log.log('swap 数量与程序事件不一致:', {
+          signature: info.signature,
+          outerIndex: instruction.outerIndex,
+          innerIndex: instruction.innerIndex,
+          balances: { input: details.inputTransfer.amount, output: details.outputTransfer.amount },
+          event: swapEvent,
+        });
+      }
+    }
+
+    const pool = pools.find(candidate => candidate.address === instruction.event?.pool);
+    swapRecords.push({
+      outerIndex: instruction.outerIndex,
+      innerIndex: instruction.innerIndex,
+      depth: instruction.depth,
+      protocol: instruction.protocol,
+      pool: instruction.event?.pool,
+      trader: details.trader,
+      counterparty: details.counterparty,
+      inputMint: details.inputTransfer.token,
+      inputAmount: details.inputTransfer.amount,
+      inputUiAmount: details.inputTransfer.uiAmount,
+      inputDecimals: details.inputTransfer.decimals,
+      inputFrom: details.inputTransfer.from,
+      inputTo: details.inputTransfer.to,
+      outputMint: details.outputTransfer.token,
+      outputAmount: details.outputTransfer.amount,
+      outputUiAmount: details.outputTransfer.uiAmount,
+      outputDecimals: details.outputTransfer.decimals,
+      outputFrom: details.outputTransfer.from,
+      outputTo: details.outputTransfer.to,
+      price: details.price,
+      inputReserve: pool && poolReserve(pool, details.inputTransfer.token),
+      outputReserve: pool && poolReserve(pool, details.outputTransfer.token),
+    });
+  }
+
+  const liquidityEvents: LiquidityRecord[] = [];
+  for (const instruction of instructions) {
+    const event = instruction.event;
+    if (!event || event.type === 'swap') continue;
+    if (!context.decoders.emits(instruction.programId, 'liquidity')) continue;
+    liquidityEvents.push(parseLiquidityInstruction(instruction, event, tokenChanges));
+  }
+
+  return {
+    info,
+    swaps,
+    failures,
+    record: {
+      transaction: {
+        signature: info.signature,
+        slot: info.slot,
+        blockTime: info.blockTime,
+        programs: info.programs,
+        accounts: info.accounts,
+        logs: tx.meta.logMessages || [],
+      },
+      instructions: instructions.map(instruction => ({
+        ...instruction,
+        accounts: instruction.namedAccounts,
+      })),
+      swaps: swapRecords,
+      pools,
+      liquidityEvents,
+      balanceChanges: tokenChanges.map(change => ({
+        ...change,
+        change: change.change.toString(),
+        uiChange: formatUnits(change.change, change.decimals),
+      })),
+    },
+  };
+}
+
+// 不涉及监听程序的交易（例如普通的 SPL 转账）只记录余额变化，
+// 没有监听钱包的代币余额发生变化时返回 null
+function parseWalletTransfer(
+  tx: BlockTransaction,
+  info: TransactionInfo,
+  watchedWallets: Set<string> | undefined
+): ParsedTransaction | null {
+  if (!tx.meta || !watchedWallets || watchedWallets.size === 0) return null;
+
+  const tokenChanges = getTokenAccountChanges(
+    (tx.meta.preTokenBalances || []) as TokenBalance[],
+    (tx.meta.postTokenBalances || []) as TokenBalance[],
+    info.accounts
+  );
+  if (!tokenChanges.some(change => watchedWallets.has(change.owner))) return null;
+
+  return {
+    info,
+    swaps: [],
+    failures: [],
+    record: {
+      transaction: {
+        signature: info.signature,
+        slot: info.slot,
+        blockTime: info.blockTime,
+        programs: info.programs,
+        accounts: info.accounts,
+        logs: tx.meta.logMessages || [],
+      },
+      instructions: [],
+      swaps: [],
+      pools: [],
+      liquidityEvents: [],
+      balanceChanges: tokenChanges.map(change => ({
+        ...change,
+        change: change.change.toString(),
+        uiChange: formatUnits(change.change, change.decimals),
+      })),
+    },
+  };
+}
+
+// 根据指令涉及的代币账户的余额变化还原 swap 的输入和输出
+export function parseSwapInstruction(
+  instruction: Instruction,
+  tx: BlockTransaction,
+  accounts: string[],
+  debug = false,
+  log: Console = console
+): SwapDetails | null {
+  try {
+    const preBalances = tx.meta?.preTokenBalances as TokenBalance[] | null | undefined;
+    const postBalances = tx.meta?.postTokenBalances as TokenBalance[] | null | undefined;
+
+    if (!preBalances || !postBalances) {
+      if (debug) {
+        log.log('没有找到代币余额信息');
+      }
+      return null;
+    }
+
+    // 交易签名者（fee payer）视为交易者
+    const trader = accounts[0];
+
+    // 按代币账户（accountIndex）计算余额变化，避免同一代币的用户账户和池子金库互相抵消
+    const allChanges = getTokenAccountChanges(preBalances, postBalances, accounts);
+
+    // 只保留该指令涉及的代币账户，避免同一交易中其他指令的余额变化混入
+    const instructionChanges = allChanges.filter(x => instruction.accounts.includes(x.account));
+    const changes = instructionChanges.length > 0 ? instructionChanges : allChanges;
+
+    if (debug) {
+      log.log('代币账户余额变化:', changes);
+    }
+
+    const traderChanges = changes.filter(x => x.owner === trader);
+    const otherChanges = changes.filter(x => x.owner !== trader);
+
+    // 池子 authority 同时持有收到输入代币和付出输出代币的金库
+    const owners = Array.from(new Set(otherChanges.map(x => x.owner)));
+    const counterparty = owners.find(owner =>
+      otherChanges.some(x => x.owner === owner && x.change > 0n) &&
+      otherChanges.some(x => x.owner === owner && x.change < 0n)
+    );
+
+    const inputVault = counterparty
+      ? largestChange(otherChanges.filter(x => x.owner === counterparty && x.change > 0n))
+      : undefined;
+    const outputVault = counterparty
+      ? largestChange(otherChanges.filter(x => x.owner === counterparty && x.change < 0n))
+      : undefined;
+
+    // 交易者的输入/输出账户；原生 SOL 使用的临时 WSOL 账户可能在交易内创建并关闭，此时没有余额记录
+    const traderInput = largestChange(traderChanges.filter(x =>
+      x.change < 0n && (!inputVault || x.mint === inputVault.mint)
+    ));
+    const traderOutput = largestChange(traderChanges.filter(x =>
+      x.change > 0n && (!outputVault || x.mint === outputVault.mint)
+    ));
+
+    const input = traderInput || inputVault;
+    const output = traderOutput || outputVault;
+    if (!input || !output || input.mint === output.mint) {
+      return null;
+    }
+
+    const price = calculatePrice(
+      absBigInt(input.change),
+      input.decimals,
+      absBigInt(output.change),
+      output.decimals
+    )!;
+
+    return {
+      type: 'swap',
+      trader,
+      counterparty: counterparty || '',
+      inputTransfer: {
+        token: input.mint,
+        amount: absBigInt(input.change).toString(),
+        uiAmount: formatUnits(absBigInt(input.change), input.decimals),
+        decimals: input.decimals,
+        from: traderInput ? traderInput.account : trader,
+        to: inputVault ? inputVault.account : ''
+      },
+      outputTransfer: {
+        token: output.mint,
+        amount: absBigInt(output.change).toString(),
+        uiAmount: formatUnits(absBigInt(output.change), output.decimals),
+        decimals: output.decimals,
+        from: outputVault ? outputVault.account : '',
+        to: traderOutput ? traderOutput.account : trader
+      },
+      price: formatUnits(price, PRICE_DECIMALS)
+    };
+  } catch (error) {
+    log.error('解析 swap 指令失败:', error);
+  }
+  return null;
+}
+
+// 余额变化可能来自交易者账户或池子金库，Token-2022 转账手续费由接收方承担，
+// 因此输入、输出数量等于事件中的数量或扣除转账手续费后的数量都视为一致
+export function matchesSwapEvent(details: SwapDetails, amounts: SwapEventAmounts): boolean {
+  const matches = (actual: string, amount: string, fee: string) =>
+    BigInt(actual) === BigInt(amount) || BigInt(actual) === BigInt(amount) - BigInt(fee);
+  return (
+    matches(details.inputTransfer.amount, amounts.inputAmount, amounts.inputTransferFee) &&
+    matches(details.outputTransfer.amount, amounts.outputAmount, amounts.outputTransferFee)
+  );
+}
+
+// 流动性事件的代币数量取池子两个金库在交易中的余额变化：添加流动性时为存入数量，移除时为取出数量。
+// 同一交易多次操作同一池子时无法按指令拆分，每条记录都是整笔交易的变化
+export function parseLiquidityInstruction(
+  instruction: Instruction,
+  event: LiquidityInfo,
+  changes: TokenAccountChange[]
+): LiquidityRecord {
+  const token0 = changes.find(change => change.account === event.vault0);
+  const token1 = changes.find(change => change.account === event.vault1);
+
+  return {
+    outerIndex: instruction.outerIndex,
+    innerIndex: instruction.innerIndex,
+    depth: instruction.depth,
+    protocol: event.protocol,
+    type: event.type,
+    // CLMM / Whirlpool 平仓指令不包含池子账户
+    pool: event.pool || undefined,
+    owner: event.owner,
+    position: event.position,
+    positionMint: event.positionMint,
+    lpMint: event.lpMint,
+    tickLower: event.tickLower,
+    tickUpper: event.tickUpper,
+    liquidity: event.liquidity,
+    token0Mint: token0?.mint ?? event.mint0,
+    token0Amount: token0 && absBigInt(token0.change).toString(),
+    token0UiAmount: token0 && formatUnits(absBigInt(token0.change), token0.decimals),
+    token0Decimals: token0?.decimals,
+    token1Mint: token1?.mint ?? event.mint1,
+    token1Amount: token1 && absBigInt(token1.change).toString(),
+    token1UiAmount: token1 && formatUnits(absBigInt(token1.change), token1.decimals),
+    token1Decimals: token1?.decimals,
+  };
+}
+
+// 把顶层指令和 meta.innerInstructions 中的 CPI 指令按执行顺序展开
+export function flattenInstructions(
+  compiledInstructions: MessageCompiledInstruction[],
+  innerInstructions: CompiledInnerInstruction[]
+): FlattenedInstruction[] {
+  const innerByIndex = new Map<number, CompiledInnerInstruction>();
+  innerInstructions.forEach(inner => innerByIndex.set(inner.index, inner));
+
+  const result: FlattenedInstruction[] = [];
+  compiledInstructions.forEach((ix, outerIndex) => {
+    result.push({
+      programIdIndex: ix.programIdIndex,
+      accountKeyIndexes: ix.accountKeyIndexes,
+      data: ix.data,
+      outerIndex,
+      depth: 0,
+    });
+
+    const inner = innerByIndex.get(outerIndex);
+    if (!inner) return;
+
+    inner.instructions.forEach((innerIx, innerIndex) => {
+      // stackHeight 从 1 开始（顶层指令）；旧版本节点不返回该字段，无法从内部指令列表还原调用层级
+      const stackHeight = (innerIx as { stackHeight?: number }).stackHeight;
+      result.push({
+        programIdIndex: innerIx.programIdIndex,
+        accountKeyIndexes: innerIx.accounts,
+        data: bs58.decode(innerIx.data),
+        outerIndex,
+        innerIndex,
+        depth: stackHeight ? stackHeight - 1 : undefined,
+      });
+    });
+  });
+
+  return result;
+}
+
+// 计算每个代币账户的余额变化，过滤掉没有变化的账户
+export function getTokenAccountChanges(
+  preBalances: TokenBalance[],
+  postBalances: TokenBalance[],
+  accounts: string[]
+): TokenAccountChange[] {
+  const changes = new Map<number, TokenAccountChange>();
+
+  const getOrCreate = (balance: TokenBalance): TokenAccountChange => {
+    let entry = changes.get(balance.accountIndex);
+    if (!entry) {
+      entry = {
+        accountIndex: balance.accountIndex,
+        account: accounts[balance.accountIndex] || '',
+        owner: balance.owner || '',
+        mint: balance.mint,
+        decimals: balance.uiTokenAmount.decimals,
+        change: 0n,
+      };
+      changes.set(balance.accountIndex, entry);
+    }
+    return entry;
+  };
+
+  // 处理前置余额
+  preBalances.forEach(pre => {
+    getOrCreate(pre).change -= BigInt(pre.uiTokenAmount.amount);
+  });
+
+  // 处理后置余额
+  postBalances.forEach(post => {
+    getOrCreate(post).change += BigInt(post.uiTokenAmount.amount);
+  });
+
+  return Array.from(changes.values()).filter(x => x.change !== 0n);
+}
+
+// 取变化绝对值最大的账户
+function largestChange(changes: TokenAccountChange[]): TokenAccountChange | undefined {
+  return changes.reduce<TokenAccountChange | undefined>(
+    (best, x) => (!best || absBigInt(x.change) > absBigInt(best.change) ? x : best),
+    undefined
+  );
+}
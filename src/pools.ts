@@ -0,0 +1,87 @@
+import { PublicKey } from '@solana/web3.js';
+import { Instruction, TokenBalance } from './parser';
+
+// 交易中出现的池子及交易结束后的金库余额。base / quote 按协议中 token0 / token1 的顺序
+// （AMM v4 为 coin / pc，Whirlpool 为 A / B），与 K 线中计价方向的约定无关
+export interface PoolRecord {
+  address: string;
+  protocol: string;
+  baseMint: string;
+  quoteMint: string;
+  baseVault: string;
+  quoteVault: string;
+  baseDecimals: number;
+  quoteDecimals: number;
+  lpMint?: string;
+  // 池子由本交易的 createPool 指令创建
+  created: boolean;
+  // 最小单位的整数字符串
+  baseReserve: string;
+  quoteReserve: string;
+}
+
+// 从 swap 和流动性指令中发现池子，金库余额取交易的 postTokenBalances。
+// 同一交易中多次操作同一个池子时，记录的是整笔交易结束后的余额
+export function getPoolStates(
+  instructions: Instruction[],
+  postBalances: TokenBalance[],
+  accounts: string[]
+): PoolRecord[] {
+  const balances = new Map(postBalances.map(balance => [accounts[balance.accountIndex], balance]));
+  const pools = new Map<string, PoolRecord>();
+
+  for (const instruction of instructions) {
+    const event = instruction.event;
+    if (!event || !event.pool) continue;
+
+    let vault0 = event.vault0;
+    let vault1 = event.vault1;
+    // CPMM / CLMM swap 指令只区分输入输出金库；这些协议要求 token0 的 mint 小于 token1，按 mint 排序还原顺序
+    if ((!vault0 || !vault1) && event.type === 'swap' && event.inputVault && event.outputVault) {
+      const input = balances.get(event.inputVault);
+      const output = balances.get(event.outputVault);
+      if (!input || !output) continue;
+      [vault0, vault1] = compareMints(input.mint, output.mint) < 0
+        ? [event.inputVault, event.outputVault]
+        : [event.outputVault, event.inputVault];
+    }
+    if (!vault0 || !vault1) continue;
+
+    const base = balances.get(vault0);
+    const quote = balances.get(vault1);
+    if (!base || !quote) continue;
+
+    const existing = pools.get(event.pool);
+    pools.set(event.pool, {
+      address: event.pool,
+      protocol: event.protocol,
+      baseMint: event.mint0 || base.mint,
+      quoteMint: event.mint1 || quote.mint,
+      baseVault: vault0,
+      quoteVault: vault1,
+      baseDecimals: base.uiTokenAmount.decimals,
+      quoteDecimals: quote.uiTokenAmount.decimals,
+      lpMint: (event.type !== 'swap' ? event.lpMint : undefined) || existing?.lpMint,
+      created: event.type === 'createPool' || Boolean(existing?.created),
+      baseReserve: base.uiTokenAmount.amount,
+      quoteReserve: quote.uiTokenAmount.amount,
+    });
+  }
+
+  return Array.from(pools.values());
+}
+
+// 池子中某个代币交易结束后的余额
+export function poolReserve(pool: PoolRecord, mint: string): string | undefined {
+  if (mint === pool.baseMint) {
+    return pool.baseReserve;
+  }
+  if (mint === pool.quoteMint) {
+    return pool.quoteReserve;
+  }
+  return undefined;
+}
+
+function compareMints(a: string, b: string): number {
+  return new PublicKey(a).toBuffer().compare(new PublicKey(b).toBuffer());
+}
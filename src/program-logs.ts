@@ -0,0 +1,84 @@
+// 从交易日志还原的一次程序调用（顶层指令或 CPI），按调用开始的顺序排列
+export interface ProgramInvocation {
+  programId: string;
+  // CPI 深度，顶层指令为 0（日志中的 invoke [n] 为 n - 1）
+  depth: number;
+  // 该调用写入的 `Program data:` 内容（base64 解码后），每行一项，不包括其 CPI 写入的内容
+  data: Buffer[];
+  // 调用以 success 结束；失败或日志被截断时为 false
+  succeeded: boolean;
+}
+
+export interface ProgramLogs {
+  invocations: ProgramInvocation[];
+  // 日志超出节点的长度限制被截断，之后的调用和事件缺失
+  truncated: boolean;
+}
+
+const INVOKE_PATTERN = /^Program (\w+) invoke \[(\d+)\]$/;
+const RESULT_PATTERN = /^Program (\w+) (success|failed)/;
+const DATA_PREFIX = 'Program data: ';
+const TRUNCATED = 'Log truncated';
+
+// 按 invoke / success / failed 维护调用栈，把 `Program data:` 归到栈顶的调用
+export function parseProgramLogs(logs: string[]): ProgramLogs {
+  const invocations: ProgramInvocation[] = [];
+  const stack: ProgramInvocation[] = [];
+
+  for (const line of logs) {
+    const invoke = INVOKE_PATTERN.exec(line);
+    if (invoke) {
+      const invocation: ProgramInvocation = {
+        programId: invoke[1],
+        depth: parseInt(invoke[2]) - 1,
+        data: [],
+        succeeded: false,
+      };
+      invocations.push(invocation);
+      stack.push(invocation);
+      continue;
+    }
+
+    if (line.startsWith(DATA_PREFIX)) {
+      // sol_log_data 的多段数据以空格分隔，Anchor 事件只有一段
+      const chunks = line.slice(DATA_PREFIX.length).split(' ');
+      stack[stack.length - 1]?.data.push(
+        Buffer.concat(chunks.map(chunk => Buffer.from(chunk, 'base64')))
+      );
+      continue;
+    }
+
+    const result = RESULT_PATTERN.exec(line);
+    if (result && stack[stack.length - 1]?.programId === result[1]) {
+      stack.pop()!.succeeded = result[2] === 'success';
+      continue;
+    }
+
+    if (line === TRUNCATED) {
+      return { invocations, truncated: true };
+    }
+  }
+
+  return { invocations, truncated: false };
+}
+
+// 按执行顺序把调用对应到展开后的指令：依次取程序 ID 和深度都相同的下一条指令。
+// 没有 invoke 日志的指令（例如预编译程序）、日志被截断后的指令以及深度未知的指令没有对应的调用
+export function matchInvocations(
+  instructions: { programId: string; depth?: number }[],
+  invocations: ProgramInvocation[]
+): (ProgramInvocation | undefined)[] {
+  const matched: (ProgramInvocation | undefined)[] = instructions.map(() => undefined);
+  let next = 0;
+  for (const invocation of invocations) {
+    const index = instructions.findIndex((instruction, position) =>
+      position >= next &&
+      instruction.programId === invocation.programId &&
+      instruction.depth === invocation.depth
+    );
+    if (index < 0) continue;
+    matched[index] = invocation;
+    next = index + 1;
+  }
+  return matched;
+}
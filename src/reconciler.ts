@@ -0,0 +1,123 @@
+import { EventEmitter } from 'events';
+import { RpcPool } from './rpc';
+import { SqliteStorage } from './storage';
+
+export interface RetractionEvent {
+  slot: number;
+  signatures: string[];
+  retractedAt: string;
+}
+
+// 跟踪以 confirmed 写入的区块，root 推进后确认它们是否进入规范链：
+// 在 finalized 链上的区块转为最终状态，不在的区块撤回其记录并发出 retraction 事件
+export class SlotReconciler extends EventEmitter {
+  private finalizedSlot = 0;
+  private provisionalSlots = new Set<number>();
+  private reconciling = false;
+  private pendingRoot = false;
+  private pollInterval?: NodeJS.Timeout;
+
+  constructor(
+    // 经过限速、Retry-After 退避和节点切换
+    private rpc: RpcPool,
+    private storage: SqliteStorage,
+    private debug: boolean
+  ) {
+    super();
+  }
+
+  // 加载上次未确认的区块，并定期轮询 finalized 区块（历史模式下没有 SlotInfo 推送）
+  async start(pollIntervalMs = 10000): Promise<void> {
+    this.storage.getProvisionalSlots().forEach(slot => this.provisionalSlots.add(slot));
+    this.finalizedSlot = await this.rpc.request(connection => connection.getSlot('finalized'));
+    if (this.provisionalSlots.size > 0) {
+      console.log(`待确认的区块: ${this.provisionalSlots.size} 个`);
+    }
+    await this.reconcile();
+
+    this.pollInterval = setInterval(() => {
+      this.onRoot().catch(error => {
+        console.error('确认区块状态失败:', error instanceof Error ? error.message : String(error));
+      });
+    }, pollIntervalMs);
+  }
+
+  stop() {
+    if (this.pollInterval) {
+      clearInterval(this.pollInterval);
+    }
+  }
+
+  isFinalized(slot: number): boolean {
+    return slot <= this.finalizedSlot;
+  }
+
+  track(slot: number) {
+    this.provisionalSlots.add(slot);
+  }
+
+  // SlotInfo.root 推进或定时轮询时调用
+  async onRoot(root?: number): Promise<void> {
+    if (root !== undefined && root <= this.finalizedSlot) {
+      return;
+    }
+    if (this.reconciling) {
+      this.pendingRoot = true;
+      return;
+    }
+
+    this.reconciling = true;
+    try {
+      do {
+        this.pendingRoot = false;
+        this.finalizedSlot = Math.max(
+          this.finalizedSlot,
+          await this.rpc.request(connection => connection.getSlot('finalized'))
+        );
+        await this.reconcile();
+      } while (this.pendingRoot);
+    } finally {
+      this.reconciling = false;
+    }
+  }
+
+  private async reconcile(): Promise<void> {
+    const candidates = Array.from(this.provisionalSlots)
+      .filter(slot => slot <= this.finalizedSlot)
+      .sort((a, b) => a - b);
+    if (candidates.length === 0) {
+      return;
+    }
+
+    const canonical = new Set(
+      await this.rpc.request(connection => connection.getBlocks(
+        candidates[0],
+        candidates[candidates.length - 1],
+        'finalized'
+      ))
+    );
+
+    const finalized = candidates.filter(slot => canonical.has(slot));
+    const retracted = candidates.filter(slot => !canonical.has(slot));
+
+    if (finalized.length > 0) {
+      this.storage.finalizeSlots(finalized);
+      if (this.debug) {
+        console.log(`区块已确认: ${finalized.join(', ')}`);
+      }
+    }
+
+    for (const slot of retracted) {
+      const signatures = this.storage.retractSlot(slot);
+      console.log(`区块 ${slot} 不在规范链上，撤回 ${signatures.length} 笔交易`);
+      const event: RetractionEvent = {
+        slot,
+        signatures,
+        retractedAt: new Date().toISOString(),
+      };
+      this.emit('retraction', event);
+    }
+
+    candidates.forEach(slot => this.provisionalSlots.delete(slot));
+  }
+}
@@ -0,0 +1,281 @@
+import { Connection } from '@solana/web3.js';
+
+const MAX_RATE_LIMIT_BACKOFF = 30000;
+const FAILURE_COOLDOWN = 5000;
+// 健康度使用指数加权移动平均
+const EWMA_ALPHA = 0.2;
+
+export interface RpcPoolOptions {
+  urls: string[];
+  wsEndpoint?: string;
+  // 每个节点每秒允许的请求数
+  requestsPerSecond: number;
+  maxRetries: number;
+  // 速率限制和切换节点日志的输出，默认为 console
+  output?: Console;
+  // 每次请求（包括重试）完成后调用，用于统计各节点的延迟和 429 次数
+  onRequest?: (url: string, outcome: RpcRequestOutcome, latencyMs: number) => void;
+}
+
+export type RpcRequestOutcome = 'success' | 'rate_limited' | 'error';
+
+export interface RpcEndpointStats {
+  // 节点的主机名，不包含路径和查询参数中可能带有的 API key
+  endpoint: string;
+  requests: number;
+  errors: number;
+  rateLimited: number;
+  avgLatencyMs: number;
+  successRate: number;
+  coolingDown: boolean;
+}
+
+// 令牌桶：按固定速率补充令牌，取不到令牌时等待
+class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+
+  constructor(private capacity: number, private refillPerSecond: number) {
+    // 速率不为正时 take() 的等待时间为 Infinity，永远取不到令牌
+    if (!(refillPerSecond > 0)) {
+      throw new Error(`每秒请求数必须大于 0，当前为 ${refillPerSecond}`);
+    }
+    this.tokens = capacity;
+  }
+
+  async take(): Promise<void> {
+    for (;;) {
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return;
+      }
+      const waitMs = Math.ceil(((1 - this.tokens) / this.refillPerSecond) * 1000);
+      await sleep(waitMs);
+    }
+  }
+
+  private refill() {
+    const now = Date.now();
+    this.tokens = Math.min(
+      this.capacity,
+      this.tokens + ((now - this.lastRefill) / 1000) * this.refillPerSecond
+    );
+    this.lastRefill = now;
+  }
+}
+
+class RpcEndpoint {
+  readonly connection: Connection;
+  // 日志和统计中使用的节点名称
+  readonly label: string;
+  readonly bucket: TokenBucket;
+  requests = 0;
+  errors = 0;
+  rateLimited = 0;
+  consecutiveRateLimits = 0;
+  avgLatencyMs = 0;
+  successRate = 1;
+  cooldownUntil = 0;
+  // 最近一次 429 响应中的 Retry-After（毫秒）
+  retryAfterMs: number | null = null;
+
+  constructor(readonly url: string, requestsPerSecond: number, wsEndpoint?: string) {
+    this.bucket = new TokenBucket(Math.max(1, requestsPerSecond), requestsPerSecond);
+    this.label = rpcEndpointLabel(url);
+    this.connection = new Connection(url, {
+      commitment: 'confirmed',
+      wsEndpoint,
+      confirmTransactionInitialTimeout: 60000,
+      // 由 RpcPool 统一处理 429，便于读取 Retry-After 并切换节点
+      disableRetryOnRateLimit: true,
+      fetch: async (input, init) => {
+        const res = await fetch(input, init);
+        if (res.status === 429) {
+          this.retryAfterMs = parseRetryAfter(res.headers.get('retry-after'));
+        }
+        return res;
+      },
+    });
+  }
+
+  // 成功率高、延迟低的节点优先
+  score(): number {
+    return this.successRate / (1 + this.avgLatencyMs / 1000);
+  }
+
+  isCoolingDown(): boolean {
+    return Date.now() < this.cooldownUntil;
+  }
+
+  recordSuccess(latencyMs: number) {
+    this.requests += 1;
+    this.consecutiveRateLimits = 0;
+    this.avgLatencyMs = this.requests === 1
+      ? latencyMs
+      : this.avgLatencyMs * (1 - EWMA_ALPHA) + latencyMs * EWMA_ALPHA;
+    this.successRate = this.successRate * (1 - EWMA_ALPHA) + EWMA_ALPHA;
+  }
+
+  recordRateLimit() {
+    this.requests += 1;
+    this.rateLimited += 1;
+    this.consecutiveRateLimits += 1;
+    this.successRate *= 1 - EWMA_ALPHA;
+    const backoff = this.retryAfterMs ?? Math.min(
+      1000 * Math.pow(2, this.consecutiveRateLimits - 1),
+      MAX_RATE_LIMIT_BACKOFF
+    );
+    this.retryAfterMs = null;
+    this.cooldownUntil = Date.now() + backoff;
+    return backoff;
+  }
+
+  recordFailure() {
+    this.requests += 1;
+    this.errors += 1;
+    this.successRate *= 1 - EWMA_ALPHA;
+    this.cooldownUntil = Date.now() + FAILURE_COOLDOWN;
+  }
+}
+
+// 多 RPC 节点请求调度：每个节点独立限速，429 时按 Retry-After 冷却，
+// 网络错误时降低健康度并切换到其他节点重试
+export class RpcPool {
+  private endpoints: RpcEndpoint[];
+  private maxRetries: number;
+  private onRequest?: RpcPoolOptions['onRequest'];
+  private output: Console;
+
+  constructor(options: RpcPoolOptions) {
+    if (options.urls.length === 0) {
+      throw new Error('至少需要配置一个 RPC 节点');
+    }
+    this.endpoints = options.urls.map(
+      url => new RpcEndpoint(url, options.requestsPerSecond, options.wsEndpoint)
+    );
+    this.maxRetries = options.maxRetries;
+    this.onRequest = options.onRequest;
+    this.output = options.output ?? console;
+  }
+
+  // 第一个节点用于 websocket 订阅
+  get primary(): Connection {
+    return this.endpoints[0].connection;
+  }
+
+  getStats(): RpcEndpointStats[] {
+    return this.endpoints.map(endpoint => ({
+      endpoint: endpoint.label,
+      requests: endpoint.requests,
+      errors: endpoint.errors,
+      rateLimited: endpoint.rateLimited,
+      avgLatencyMs: Math.round(endpoint.avgLatencyMs),
+      successRate: Number(endpoint.successRate.toFixed(3)),
+      coolingDown: endpoint.isCoolingDown(),
+    }));
+  }
+
+  async request<T>(fn: (connection: Connection) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (let attempt = 0; attempt <= this.maxRetries; attempt++) {
+      const endpoint = await this.acquire();
+
+      const startedAt = Date.now();
+      try {
+        const result = await fn(endpoint.connection);
+        endpoint.recordSuccess(Date.now() - startedAt);
+        this.onRequest?.(endpoint.url, 'success', Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        lastError = error;
+        const message = error instanceof Error ? error.message : String(error);
+
+        if (message.includes('429')) {
+          const backoff = endpoint.recordRateLimit();
+          this.onRequest?.(endpoint.url, 'rate_limited', Date.now() - startedAt);
+          this.output.log(`节点 ${endpoint.label} 遇到速率限制，暂停 ${backoff}ms`);
+          continue;
+        }
+        if (isRetryableError(message)) {
+          endpoint.recordFailure();
+          this.onRequest?.(endpoint.url, 'error', Date.now() - startedAt);
+          this.output.log(`节点 ${endpoint.label} 请求失败，切换节点重试: ${message}`);
+          continue;
+        }
+        // 业务错误（例如区块被跳过）与节点无关，直接抛出
+        endpoint.recordSuccess(Date.now() - startedAt);
+        this.onRequest?.(endpoint.url, 'success', Date.now() - startedAt);
+        throw error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  // 等待令牌期间节点可能因其他请求遇到 429 进入冷却，此时重新选择节点
+  private async acquire(): Promise<RpcEndpoint> {
+    for (;;) {
+      const endpoint = await this.pick();
+      await endpoint.bucket.take();
+      if (!endpoint.isCoolingDown()) {
+        return endpoint;
+      }
+    }
+  }
+
+  // 选择未冷却且健康度最高的节点；全部冷却时等待最早恢复的节点
+  private async pick(): Promise<RpcEndpoint> {
+    const available = this.endpoints.filter(endpoint => !endpoint.isCoolingDown());
+    if (available.length > 0) {
+      return available.reduce((best, endpoint) => (endpoint.score() > best.score() ? endpoint : best));
+    }
+
+    const next = this.endpoints.reduce((best, endpoint) =>
+      endpoint.cooldownUntil < best.cooldownUntil ? endpoint : best
+    );
+    await sleep(Math.max(next.cooldownUntil - Date.now(), 0));
+    return next;
+  }
+}
+
+// 很多 RPC 服务商把 API key 放在 URL 的路径或查询参数中，对外只显示主机名
+export function rpcEndpointLabel(url: string): string {
+  try {
+    return new URL(url).host;
+  } catch {
+    return 'unknown';
+  }
+}
+
+function isRetryableError(message: string): boolean {
+  return [
+    'fetch failed',
+    'ECONNRESET',
+    'ECONNREFUSED',
+    'ETIMEDOUT',
+    'socket hang up',
+    'timeout',
+    '502',
+    '503',
+    '504',
+  ].some(pattern => message.includes(pattern));
+}
+
+// Retry-After 可以是秒数或 HTTP 日期
+function parseRetryAfter(value: string | null): number | null {
+  if (!value) {
+    return null;
+  }
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(seconds * 1000, 0);
+  }
+  const date = Date.parse(value);
+  return isNaN(date) ? null : Math.max(date - Date.now(), 0);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
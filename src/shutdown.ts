@@ -0,0 +1,65 @@
+import { EventEmitter } from 'events';
+
+export const SHUTDOWN_SIGNALS: NodeJS.Signals[] = ['SIGINT', 'SIGTERM'];
+
+// 强制退出前额外等待的时间，留给关闭流程写出日志和检查点
+const FORCE_EXIT_GRACE_MS = 5000;
+
+export interface ShutdownOptions {
+  timeoutMs: number;
+  // 以下用于测试
+  target?: EventEmitter;
+  exit?: (code: number) => void;
+}
+
+// 等待 promise 完成（成功或失败），最多 timeoutMs；按时完成返回 true，超时返回 false，
+// 超时不会取消原操作
+export async function settleWithin(promise: Promise<unknown>, timeoutMs: number): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<boolean>(resolve => {
+    timer = setTimeout(() => resolve(false), Math.max(timeoutMs, 0));
+  });
+  try {
+    return await Promise.race([promise.then(() => true, () => true), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// 第一次收到 SIGINT / SIGTERM 时调用 shutdown，完成后以其返回的退出码退出；
+// 关闭期间再次收到信号，或超时后仍未完成时以退出码 1 强制退出。返回取消监听的函数
+export function handleShutdownSignals(
+  shutdown: (signal: NodeJS.Signals) => Promise<number>,
+  { timeoutMs, target = process, exit = code => process.exit(code) }: ShutdownOptions
+): () => void {
+  let shuttingDown = false;
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    if (shuttingDown) {
+      console.error(`再次收到 ${signal}，强制退出`);
+      exit(1);
+      return;
+    }
+    shuttingDown = true;
+    console.log(`收到 ${signal}，正在关闭索引服务...`);
+
+    const timer = setTimeout(() => {
+      console.error('关闭超时，强制退出');
+      exit(1);
+    }, timeoutMs + FORCE_EXIT_GRACE_MS);
+    timer.unref();
+
+    shutdown(signal)
+      .catch(error => {
+        console.error('关闭索引服务失败:', error instanceof Error ? error.message : String(error));
+        return 1;
+      })
+      .then(code => {
+        clearTimeout(timer);
+        exit(code);
+      });
+  };
+
+  SHUTDOWN_SIGNALS.forEach(signal => target.on(signal, onSignal));
+  return () => SHUTDOWN_SIGNALS.forEach(signal => target.off(signal, onSignal));
+}
@@ -0,0 +1,20 @@
+import { LogSink } from './types';
+
+// 同一条记录写入多个 sink
+export class FanoutSink implements LogSink {
+  constructor(private sinks: LogSink[]) {}
+
+  write(stream: string, entry: Record<string, unknown>) {
+    for (const sink of this.sinks) {
+      sink.write(stream, entry);
+    }
+  }
+
+  async flush(): Promise<void> {
+    await Promise.all(this.sinks.map(sink => sink.flush()));
+  }
+
+  async close(): Promise<void> {
+    await Promise.all(this.sinks.map(sink => sink.close()));
+  }
+}
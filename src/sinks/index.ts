@@ -0,0 +1,52 @@
+import { FanoutSink } from './fanout';
+import { NdjsonFileSink } from './ndjson';
+import { StdoutSink } from './stdout';
+import { LogSink } from './types';
+
+export * from './types';
+export { FanoutSink, NdjsonFileSink, StdoutSink };
+
+export interface LogSinkOptions {
+  dir: string;
+  maxBytes: number;
+  // none：不按时间轮转；hourly / daily：按 UTC 小时或天轮转
+  rotate: string;
+  flushInterval: number;
+  // stdout 只输出这些类别，未设置时输出全部
+  stdoutStreams?: string[];
+}
+
+const ROTATE_INTERVALS: Record<string, number> = {
+  none: 0,
+  hourly: 3600 * 1000,
+  daily: 86400 * 1000,
+};
+
+// kinds 为 file、stdout 的组合，多个时同时写入
+export function createLogSink(kinds: string[], options: LogSinkOptions): LogSink {
+  const rotateInterval = ROTATE_INTERVALS[options.rotate];
+  if (rotateInterval === undefined) {
+    throw new Error(`LOG_ROTATE 只支持 none、hourly 或 daily，当前为 ${options.rotate}`);
+  }
+
+  const sinks = kinds.map(kind => {
+    switch (kind) {
+      case 'file':
+        return new NdjsonFileSink({
+          dir: options.dir,
+          maxBytes: options.maxBytes,
+          rotateInterval,
+          flushInterval: options.flushInterval,
+          maxBufferBytes: 1024 * 1024,
+        });
+      case 'stdout':
+        return new StdoutSink({
+          streams: options.stdoutStreams,
+          flushInterval: options.flushInterval,
+        });
+      default:
+        throw new Error(`LOG_SINKS 只支持 file 或 stdout，当前为 ${kind}`);
+    }
+  });
+  return sinks.length === 1 ? sinks[0] : new FanoutSink(sinks);
+}
@@ -0,0 +1,127 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { LogSink } from './types';
+
+export interface NdjsonFileSinkOptions {
+  dir: string;
+  // 单个文件超过该大小（字节）时轮转，0 表示不按大小轮转
+  maxBytes: number;
+  // 当前文件跨越该周期（毫秒，按 UTC 对齐）时轮转，0 表示不按时间轮转
+  rotateInterval: number;
+  flushInterval: number;
+  // 缓冲区超过该大小（字节）时立即写出，不等定时器
+  maxBufferBytes: number;
+  now?: () => number;
+}
+
+interface StreamState {
+  file: string;
+  lines: string[];
+  bufferedBytes: number;
+  // 当前文件的大小和开始时间，第一次写出时从已有文件读取
+  size?: number;
+  startedAt?: number;
+}
+
+// 每个类别写入 <dir>/<stream>.log，每行一条 JSON。
+// 轮转时把当前文件重命名为 <stream>.<文件开始时间>.log，再写入新文件
+export class NdjsonFileSink implements LogSink {
+  private streams = new Map<string, StreamState>();
+  private bufferedBytes = 0;
+  // 写出操作串行执行，保证同一文件中记录的顺序
+  private flushing: Promise<void> = Promise.resolve();
+  private flushQueued = false;
+  private timer: NodeJS.Timeout;
+  private now: () => number;
+
+  constructor(private options: NdjsonFileSinkOptions) {
+    this.now = options.now || Date.now;
+    this.timer = setInterval(() => this.flush(), options.flushInterval);
+    this.timer.unref();
+  }
+
+  write(stream: string, entry: Record<string, unknown>) {
+    let state = this.streams.get(stream);
+    if (!state) {
+      state = { file: path.join(this.options.dir, `${stream}.log`), lines: [], bufferedBytes: 0 };
+      this.streams.set(stream, state);
+    }
+
+    const line = JSON.stringify(entry) + '\n';
+    const bytes = Buffer.byteLength(line);
+    state.lines.push(line);
+    state.bufferedBytes += bytes;
+    this.bufferedBytes += bytes;
+    if (this.bufferedBytes >= this.options.maxBufferBytes && !this.flushQueued) {
+      this.flush();
+    }
+  }
+
+  flush(): Promise<void> {
+    this.flushQueued = true;
+    this.flushing = this.flushing.then(() => this.writeBuffered());
+    return this.flushing;
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+
+  private async writeBuffered() {
+    this.flushQueued = false;
+    for (const state of this.streams.values()) {
+      if (state.lines.length === 0) continue;
+
+      const chunk = state.lines.join('');
+      const bytes = state.bufferedBytes;
+      state.lines = [];
+      state.bufferedBytes = 0;
+      this.bufferedBytes -= bytes;
+      try {
+        await this.prepare(state, bytes);
+        await fs.promises.appendFile(state.file, chunk);
+        state.size! += bytes;
+      } catch (error) {
+        console.error(`写入日志 ${state.file} 失败:`, error instanceof Error ? error.message : String(error));
+      }
+    }
+  }
+
+  // 打开文件，并在写入前检查是否需要轮转
+  private async prepare(state: StreamState, incomingBytes: number) {
+    const now = this.now();
+    if (state.size === undefined || state.startedAt === undefined) {
+      await fs.promises.mkdir(this.options.dir, { recursive: true });
+      const stat = await fs.promises.stat(state.file).catch(() => null);
+      state.size = stat ? stat.size : 0;
+      state.startedAt = stat ? stat.birthtimeMs || stat.mtimeMs : now;
+    }
+
+    const { maxBytes, rotateInterval } = this.options;
+    const sizeExceeded = maxBytes > 0 && state.size + incomingBytes > maxBytes;
+    const periodChanged = rotateInterval > 0 &&
+      Math.floor(state.startedAt / rotateInterval) !== Math.floor(now / rotateInterval);
+    if (!sizeExceeded && !periodChanged) {
+      return;
+    }
+
+    if (state.size > 0) {
+      await fs.promises.rename(state.file, await this.rotatedFile(state));
+    }
+    state.size = 0;
+    state.startedAt = now;
+  }
+
+  private async rotatedFile(state: StreamState): Promise<string> {
+    const base = state.file.replace(/\.log$/, '');
+    const time = new Date(state.startedAt!).toISOString().slice(0, 19).replace(/:/g, '-');
+    for (let index = 0; ; index++) {
+      const file = index === 0 ? `${base}.${time}.log` : `${base}.${time}.${index}.log`;
+      const exists = await fs.promises.access(file).then(() => true, () => false);
+      if (!exists) {
+        return file;
+      }
+    }
+  }
+}
@@ -0,0 +1,42 @@
+import { LogSink } from './types';
+
+export interface StdoutSinkOptions {
+  // 只输出这些类别，未设置时输出全部
+  streams?: string[];
+  flushInterval: number;
+  output?: NodeJS.WritableStream;
+}
+
+// 每条记录一行 JSON 输出到标准输出，带 stream 字段区分类别
+export class StdoutSink implements LogSink {
+  private lines: string[] = [];
+  private output: NodeJS.WritableStream;
+  private timer: NodeJS.Timeout;
+
+  constructor(private options: StdoutSinkOptions) {
+    this.output = options.output || process.stdout;
+    this.timer = setInterval(() => this.flush(), options.flushInterval);
+    this.timer.unref();
+  }
+
+  write(stream: string, entry: Record<string, unknown>) {
+    if (this.options.streams && !this.options.streams.includes(stream)) {
+      return;
+    }
+    this.lines.push(JSON.stringify({ stream, ...entry }));
+  }
+
+  flush(): Promise<void> {
+    if (this.lines.length === 0) {
+      return Promise.resolve();
+    }
+    const chunk = this.lines.join('\n') + '\n';
+    this.lines = [];
+    return new Promise(resolve => this.output.write(chunk, () => resolve()));
+  }
+
+  async close(): Promise<void> {
+    clearInterval(this.timer);
+    await this.flush();
+  }
+}
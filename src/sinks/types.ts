@@ -0,0 +1,8 @@
+// 日志输出目标。write 只写入内存缓冲区，由 sink 异步批量输出，不阻塞区块处理；
+// 退出前需要调用 close 把缓冲区中的记录全部写出
+export interface LogSink {
+  // stream 为日志类别（transactions、swaps 等），文件输出时对应 <stream>.log
+  write(stream: string, entry: Record<string, unknown>): void;
+  flush(): Promise<void>;
+  close(): Promise<void>;
+}
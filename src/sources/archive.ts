@@ -0,0 +1,110 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as zlib from 'zlib';
+import { PublicKey, VersionedMessage } from '@solana/web3.js';
+import { Block } from './types';
+
+// 归档格式：message 序列化为 base64，loadedAddresses 中的 PublicKey 转为 base58，其余字段保持 RPC 返回值
+export interface ArchivedTransaction {
+  transaction: {
+    message: string;
+    signatures: string[];
+  };
+  meta: (Omit<NonNullable<Block['transactions'][number]['meta']>, 'loadedAddresses'> & {
+    loadedAddresses?: { writable: string[]; readonly: string[] };
+  }) | null;
+  version?: Block['transactions'][number]['version'];
+}
+
+export interface ArchivedBlock {
+  slot: number;
+  // 区块不存在时为 null，回放时同样返回 null
+  block: (Omit<Block, 'transactions'> & { transactions: ArchivedTransaction[] }) | null;
+}
+
+const FILE_SUFFIX = '.json.gz';
+
+// 每个区块一个 gzip 文件：<dir>/<slot>.json.gz
+export class BlockArchive {
+  constructor(private dir: string) {}
+
+  has(slot: number): boolean {
+    return fs.existsSync(this.pathFor(slot));
+  }
+
+  listSlots(): number[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs.readdirSync(this.dir)
+      .filter(name => name.endsWith(FILE_SUFFIX))
+      .map(name => parseInt(name.slice(0, -FILE_SUFFIX.length), 10))
+      .filter(slot => !isNaN(slot))
+      .sort((a, b) => a - b);
+  }
+
+  write(slot: number, block: Block | null) {
+    if (!fs.existsSync(this.dir)) {
+      fs.mkdirSync(this.dir, { recursive: true });
+    }
+
+    const archived: ArchivedBlock = { slot, block: block ? serializeBlock(block) : null };
+    const filePath = this.pathFor(slot);
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, zlib.gzipSync(JSON.stringify(archived)));
+    fs.renameSync(tmpPath, filePath);
+  }
+
+  read(slot: number): Block | null {
+    const filePath = this.pathFor(slot);
+    if (!fs.existsSync(filePath)) {
+      throw new Error(`归档中没有区块 ${slot}: ${filePath}`);
+    }
+    const archived = JSON.parse(zlib.gunzipSync(fs.readFileSync(filePath)).toString('utf8')) as ArchivedBlock;
+    return archived.block ? deserializeBlock(archived.block) : null;
+  }
+
+  private pathFor(slot: number): string {
+    return path.join(this.dir, `${slot}${FILE_SUFFIX}`);
+  }
+}
+
+export function serializeBlock(block: Block): NonNullable<ArchivedBlock['block']> {
+  return {
+    ...block,
+    transactions: block.transactions.map(tx => ({
+      transaction: {
+        message: Buffer.from(tx.transaction.message.serialize()).toString('base64'),
+        signatures: tx.transaction.signatures,
+      },
+      meta: tx.meta && {
+        ...tx.meta,
+        loadedAddresses: tx.meta.loadedAddresses && {
+          writable: tx.meta.loadedAddresses.writable.map(key => key.toBase58()),
+          readonly: tx.meta.loadedAddresses.readonly.map(key => key.toBase58()),
+        },
+      },
+      version: tx.version,
+    })),
+  };
+}
+
+export function deserializeBlock(block: NonNullable<ArchivedBlock['block']>): Block {
+  return {
+    ...block,
+    transactions: block.transactions.map(tx => ({
+      transaction: {
+        message: VersionedMessage.deserialize(Buffer.from(tx.transaction.message, 'base64')),
+        signatures: tx.transaction.signatures,
+      },
+      meta: tx.meta && {
+        ...tx.meta,
+        loadedAddresses: tx.meta.loadedAddresses && {
+          writable: tx.meta.loadedAddresses.writable.map(key => new PublicKey(key)),
+          readonly: tx.meta.loadedAddresses.readonly.map(key => new PublicKey(key)),
+        },
+      },
+      version: tx.version,
+    })),
+  };
+}
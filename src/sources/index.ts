@@ -0,0 +1,23 @@
+import { RpcPool } from '../rpc';
+import { BlockArchive } from './archive';
+import { RecordingBlockSource } from './recorder';
+import { ReplayBlockSource } from './replay';
+import { RpcBlockSource } from './rpc';
+import { BlockSource } from './types';
+
+export * from './types';
+export { ArchivedBlock, ArchivedTransaction, deserializeBlock, serializeBlock } from './archive';
+export { BlockArchive, RecordingBlockSource, ReplayBlockSource, RpcBlockSource };
+
+export function createBlockSource(kind: string, rpc: RpcPool, archiveDir: string): BlockSource {
+  switch (kind) {
+    case 'rpc':
+      return new RpcBlockSource(rpc);
+    case 'record':
+      return new RecordingBlockSource(new RpcBlockSource(rpc), new BlockArchive(archiveDir));
+    case 'replay':
+      return new ReplayBlockSource(new BlockArchive(archiveDir));
+    default:
+      throw new Error(`BLOCK_SOURCE 只支持 rpc、record 或 replay，当前为 ${kind}`);
+  }
+}
@@ -0,0 +1,28 @@
+import { Commitment, SlotChangeCallback } from '@solana/web3.js';
+import { BlockArchive } from './archive';
+import { Block, BlockSource } from './types';
+
+// 录制：从上游获取区块的同时写入归档，用于之后离线回放
+export class RecordingBlockSource implements BlockSource {
+  readonly kind: BlockSource['kind'] = 'record';
+
+  constructor(private upstream: BlockSource, private archive: BlockArchive) {}
+
+  async getBlock(slot: number): Promise<Block | null> {
+    const block = await this.upstream.getBlock(slot);
+    this.archive.write(slot, block);
+    return block;
+  }
+
+  getSlot(commitment?: Commitment): Promise<number> {
+    return this.upstream.getSlot(commitment);
+  }
+
+  onSlotChange(callback: SlotChangeCallback): number {
+    return this.upstream.onSlotChange(callback);
+  }
+
+  removeSlotChangeListener(subscriptionId: number): Promise<void> {
+    return this.upstream.removeSlotChangeListener(subscriptionId);
+  }
+}
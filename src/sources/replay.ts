@@ -0,0 +1,30 @@
+import { SlotChangeCallback } from '@solana/web3.js';
+import { BlockArchive } from './archive';
+import { Block, BlockSource } from './types';
+
+// 回放：只读取归档，不访问网络；没有新区块推送
+export class ReplayBlockSource implements BlockSource {
+  readonly kind: BlockSource['kind'] = 'replay';
+
+  constructor(private archive: BlockArchive) {}
+
+  getSlots(): number[] {
+    return this.archive.listSlots();
+  }
+
+  async getBlock(slot: number): Promise<Block | null> {
+    return this.archive.read(slot);
+  }
+
+  // 归档中的最高区块
+  async getSlot(): Promise<number> {
+    const slots = this.archive.listSlots();
+    return slots.length > 0 ? slots[slots.length - 1] : 0;
+  }
+
+  onSlotChange(_callback: SlotChangeCallback): number {
+    return -1;
+  }
+
+  async removeSlotChangeListener(_subscriptionId: number): Promise<void> {}
+}
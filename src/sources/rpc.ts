@@ -0,0 +1,33 @@
+import { Commitment, SlotChangeCallback } from '@solana/web3.js';
+import { RpcPool } from '../rpc';
+import { Block, BlockSource } from './types';
+
+// 实时 RPC：请求经过 RpcPool 限速和节点切换，订阅使用第一个节点
+export class RpcBlockSource implements BlockSource {
+  readonly kind: BlockSource['kind'] = 'rpc';
+
+  constructor(private rpc: RpcPool) {}
+
+  getBlock(slot: number): Promise<Block | null> {
+    return this.rpc.request(connection =>
+      connection.getBlock(slot, {
+        maxSupportedTransactionVersion: 0,
+        commitment: 'confirmed',
+        transactionDetails: 'full',
+        rewards: false,
+      })
+    );
+  }
+
+  getSlot(commitment?: Commitment): Promise<number> {
+    return this.rpc.request(connection => connection.getSlot(commitment));
+  }
+
+  onSlotChange(callback: SlotChangeCallback): number {
+    return this.rpc.primary.onSlotChange(callback);
+  }
+
+  removeSlotChangeListener(subscriptionId: number): Promise<void> {
+    return this.rpc.primary.removeSlotChangeListener(subscriptionId);
+  }
+}
@@ -0,0 +1,13 @@
+import { Commitment, SlotChangeCallback, VersionedBlockResponse } from '@solana/web3.js';
+
+export type Block = VersionedBlockResponse;
+
+// 区块数据来源：实时 RPC、录制（RPC + 写入归档）或从归档回放
+export interface BlockSource {
+  readonly kind: 'rpc' | 'record' | 'replay';
+  // 区块不存在时返回 null，被跳过的区块抛出错误（与 Connection.getBlock 一致）
+  getBlock(slot: number): Promise<Block | null>;
+  getSlot(commitment?: Commitment): Promise<number>;
+  onSlotChange(callback: SlotChangeCallback): number;
+  removeSlotChangeListener(subscriptionId: number): Promise<void>;
+}
@@ -0,0 +1,2155 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import Database from 'better-sqlite3';
+import { calculatePrice, formatUnits, PRICE_DECIMALS } from './amounts';
+import {
+  aggregateTrades,
+  bucketEnd,
+  bucketStart,
+  Candle,
+  CandleInterval,
+  CandleValues,
+  CANDLE_INTERVALS,
+  MarketType,
+  mergeCandles,
+  orientPair,
+  pairMarket,
+} from './candles';
+import { LiquidityInfo } from './decoders';
+import { PoolRecord } from './pools';
+import {
+  accumulatePosition,
+  averageCost,
+  PositionValues,
+  WalletActivityRecord,
+  WalletActivityType,
+  WalletTokenChange,
+} from './wallets';
+
+export interface TransactionRecord {
+  signature: string;
+  slot: number;
+  blockTime: string | null;
+  programs: string[];
+  accounts: string[];
+  logs: string[];
+}
+
+export interface InstructionRecord {
+  outerIndex: number;
+  innerIndex?: number;
+  // 深度未知时为 undefined，写入数据库时为 -1
+  depth?: number;
+  programId: string;
+  protocol?: string;
+  type?: string;
+  name?: string;
+  discriminator?: string;
+  data: string;
+  args?: unknown;
+  accounts?: unknown;
+  event?: unknown;
+  // 程序调用写入日志的事件
+  events?: unknown;
+}
+
+export interface SwapRecord {
+  outerIndex: number;
+  innerIndex?: number;
+  depth?: number;
+  protocol?: string;
+  pool?: string;
+  trader: string;
+  counterparty: string;
+  inputMint: string;
+  // 最小单位的整数字符串
+  inputAmount: string;
+  // 按 decimals 换算后的精确小数字符串
+  inputUiAmount: string;
+  inputDecimals: number;
+  inputFrom: string;
+  inputTo: string;
+  outputMint: string;
+  outputAmount: string;
+  outputUiAmount: string;
+  outputDecimals: number;
+  outputFrom: string;
+  outputTo: string;
+  // 每 1 个输入代币换得的输出代币数量
+  price?: string;
+  // 交易结束后池子中输入、输出代币的余额（最小单位），无法识别池子金库时为 undefined
+  inputReserve?: string;
+  outputReserve?: string;
+  // 由 TokenMetadataResolver 补充，无法解析时为 undefined
+  inputSymbol?: string;
+  inputName?: string;
+  outputSymbol?: string;
+  outputName?: string;
+}
+
+export interface LiquidityRecord {
+  outerIndex: number;
+  innerIndex?: number;
+  depth?: number;
+  protocol: string;
+  type: LiquidityInfo['type'];
+  pool?: string;
+  owner: string;
+  // CLMM / Whirlpool 仓位账户及仓位 NFT
+  position?: string;
+  positionMint?: string;
+  // CPMM / AMM v4 的 LP 代币
+  lpMint?: string;
+  tickLower?: number;
+  tickUpper?: number;
+  liquidity?: string;
+  // 存入或取出的代币数量（最小单位整数字符串），金库余额没有变化时为 undefined
+  token0Mint?: string;
+  token0Amount?: string;
+  token0UiAmount?: string;
+  token0Decimals?: number;
+  token1Mint?: string;
+  token1Amount?: string;
+  token1UiAmount?: string;
+  token1Decimals?: number;
+}
+
+export interface TokenBalanceChangeRecord {
+  accountIndex: number;
+  account: string;
+  owner: string;
+  mint: string;
+  decimals: number;
+  // 最小单位的整数字符串，可能为负
+  change: string;
+  uiChange: string;
+  symbol?: string;
+  name?: string;
+}
+
+// provisional：区块尚未达到 finalized，可能因分叉被撤回；final：已确认不会回滚
+export type RecordStatus = 'provisional' | 'final';
+
+export interface BlockRecord {
+  slot: number;
+  blockhash: string;
+  parentSlot: number;
+  status: RecordStatus;
+}
+
+export interface SwapQuery {
+  mint?: string;
+  pool?: string;
+  trader?: string;
+  fromSlot?: number;
+  toSlot?: number;
+  fromTime?: string;
+  toTime?: string;
+  status?: RecordStatus;
+  limit: number;
+  // 上一页最后一条记录的位置，按 (slot, signature, outer_index, inner_index) 倒序翻页
+  cursor?: SwapCursor;
+}
+
+export interface LiquidityQuery {
+  pool?: string;
+  owner?: string;
+  positionMint?: string;
+  lpMint?: string;
+  type?: string;
+  fromSlot?: number;
+  toSlot?: number;
+  status?: RecordStatus;
+  limit: number;
+  // 与 swap 相同，按 (slot, signature, outer_index, inner_index) 倒序翻页
+  cursor?: SwapCursor;
+}
+
+export interface SwapCursor {
+  slot: number;
+  signature: string;
+  outerIndex: number;
+  innerIndex: number;
+}
+
+export interface StoredSwap {
+  signature: string;
+  status: RecordStatus;
+  outerIndex: number;
+  innerIndex: number | null;
+  depth: number | null;
+  slot: number;
+  blockTime: string | null;
+  protocol: string | null;
+  pool: string | null;
+  trader: string;
+  counterparty: string;
+  input: StoredSwapSide;
+  output: StoredSwapSide;
+  // 每 1 个输入代币换得的输出代币数量；迁移前的记录没有整数数量，为 null
+  price: string | null;
+}
+
+export interface StoredLiquidityEvent {
+  signature: string;
+  status: RecordStatus;
+  outerIndex: number;
+  innerIndex: number | null;
+  depth: number | null;
+  slot: number;
+  blockTime: string | null;
+  protocol: string;
+  type: LiquidityInfo['type'];
+  pool: string | null;
+  owner: string;
+  position: string | null;
+  positionMint: string | null;
+  lpMint: string | null;
+  tickLower: number | null;
+  tickUpper: number | null;
+  liquidity: string | null;
+  token0: StoredLiquidityAmount | null;
+  token1: StoredLiquidityAmount | null;
+}
+
+export interface StoredLiquidityAmount {
+  mint: string;
+  // 金库余额没有变化时为 null
+  amount: string | null;
+  uiAmount: string | null;
+  decimals: number | null;
+}
+
+export interface WebhookDeadLetter {
+  url: string;
+  deliveryId: string;
+  // 原样保存的请求体 JSON
+  payload: string;
+  attempts: number;
+  error: string;
+}
+
+export interface StoredWebhookDeadLetter extends WebhookDeadLetter {
+  id: number;
+  failedAt: string;
+}
+
+export interface CandleQuery {
+  marketType: MarketType;
+  market: string;
+  interval: CandleInterval;
+  fromTime?: string;
+  toTime?: string;
+  limit: number;
+}
+
+export interface StoredSwapSide {
+  mint: string;
+  symbol: string | null;
+  name: string | null;
+  // 迁移前写入的记录只有四舍五入后的 uiAmount，amount 为 null
+  amount: string | null;
+  uiAmount: string;
+  decimals: number;
+  from: string;
+  to: string;
+  // 交易结束后池子中该代币的余额（最小单位）
+  reserve: string | null;
+}
+
+export interface PoolQuery {
+  mint?: string;
+  protocol?: string;
+  limit: number;
+}
+
+export interface StoredPool {
+  address: string;
+  protocol: string;
+  baseMint: string;
+  quoteMint: string;
+  baseVault: string;
+  quoteVault: string;
+  baseDecimals: number;
+  quoteDecimals: number;
+  lpMint: string | null;
+  // 创建池子的交易；从 swap 等指令发现、没有处理到创建交易时为 null
+  createdSignature: string | null;
+  createdSlot: number | null;
+  discoveredSlot: number;
+  // 最近一次 swap 或流动性变化后的金库余额
+  reserves: PoolReserves | null;
+}
+
+export interface PoolReserves {
+  slot: number;
+  signature: string;
+  base: string;
+  baseUi: string;
+  quote: string;
+  quoteUi: string;
+}
+
+export interface StoredTransaction extends TransactionRecord {
+  status: RecordStatus;
+  instructions: InstructionRecord[];
+  swaps: StoredSwap[];
+  liquidityEvents: StoredLiquidityEvent[];
+  balanceChanges: TokenBalanceChangeRecord[];
+}
+
+export interface IndexedTransaction {
+  transaction: TransactionRecord;
+  instructions: InstructionRecord[];
+  swaps: SwapRecord[];
+  pools: PoolRecord[];
+  liquidityEvents: LiquidityRecord[];
+  balanceChanges: TokenBalanceChangeRecord[];
+  // 监听钱包的活动，由 WalletWatchlists 填写；没有监听钱包时为 undefined
+  walletActivity?: WalletActivityRecord[];
+}
+
+export interface WalletActivityQuery {
+  wallet?: string;
+  watchlist?: string;
+  type?: WalletActivityType;
+  fromSlot?: number;
+  toSlot?: number;
+  status?: RecordStatus;
+  limit: number;
+  cursor?: WalletActivityCursor;
+}
+
+export interface WalletActivityCursor {
+  slot: number;
+  signature: string;
+  wallet: string;
+  seq: number;
+}
+
+export interface StoredWalletActivity {
+  signature: string;
+  status: RecordStatus;
+  slot: number;
+  blockTime: string | null;
+  wallet: string;
+  watchlists: string[];
+  type: WalletActivityType;
+  action: string;
+  outerIndex: number | null;
+  innerIndex: number | null;
+  protocol: string | null;
+  pool: string | null;
+  changes: WalletTokenChange[];
+}
+
+// 钱包在一个交易对（base/quote 方向与 K 线相同）上的持仓和已实现盈亏，金额均以 quote 计
+export interface StoredWalletPosition {
+  wallet: string;
+  baseMint: string;
+  quoteMint: string;
+  baseDecimals: number;
+  quoteDecimals: number;
+  amount: string;
+  uiAmount: string;
+  cost: string;
+  uiCost: string;
+  // 每 1 个 base 代币的平均成本，没有持仓时为 null
+  averageCost: string | null;
+  realizedPnl: string;
+  uiRealizedPnl: string;
+  buys: number;
+  sells: number;
+  // 卖出数量超过已记录持仓的部分，不计入已实现盈亏
+  untrackedSold: string;
+  lastSlot: number;
+}
+
+// 按顺序执行的表结构迁移，当前版本保存在 PRAGMA user_version；需要转换数据时使用函数
+// 顶层指令的 inner_index 记为 -1，保证 (signature, outer_index, inner_index) 唯一
+// 深度未知（旧版本节点不返回 stackHeight）的指令 depth 记为 -1
+const MIGRATIONS: (string | ((db: Database.Database) => void))[] = [
+  `
+  CREATE TABLE transactions (
+    signature TEXT PRIMARY KEY,
+    slot INTEGER NOT NULL,
+    block_time TEXT,
+    programs TEXT NOT NULL,
+    accounts TEXT NOT NULL,
+    logs TEXT NOT NULL,
+    indexed_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_transactions_slot ON transactions (slot);
+
+  CREATE TABLE instructions (
+    signature TEXT NOT NULL,
+    outer_index INTEGER NOT NULL,
+    inner_index INTEGER NOT NULL,
+    depth INTEGER NOT NULL,
+    program_id TEXT NOT NULL,
+    protocol TEXT,
+    type TEXT,
+    name TEXT,
+    discriminator TEXT,
+    data TEXT NOT NULL,
+    args TEXT,
+    accounts TEXT,
+    event TEXT,
+    PRIMARY KEY (signature, outer_index, inner_index)
+  );
+  CREATE INDEX idx_instructions_program ON instructions (program_id, type);
+
+  CREATE TABLE swaps (
+    signature TEXT NOT NULL,
+    outer_index INTEGER NOT NULL,
+    inner_index INTEGER NOT NULL,
+    depth INTEGER NOT NULL,
+    slot INTEGER NOT NULL,
+    block_time TEXT,
+    protocol TEXT,
+    pool TEXT,
+    trader TEXT NOT NULL,
+    counterparty TEXT NOT NULL,
+    input_mint TEXT NOT NULL,
+    input_amount REAL NOT NULL,
+    input_decimals INTEGER NOT NULL,
+    input_from TEXT NOT NULL,
+    input_to TEXT NOT NULL,
+    output_mint TEXT NOT NULL,
+    output_amount REAL NOT NULL,
+    output_decimals INTEGER NOT NULL,
+    output_from TEXT NOT NULL,
+    output_to TEXT NOT NULL,
+    PRIMARY KEY (signature, outer_index, inner_index)
+  );
+  CREATE INDEX idx_swaps_slot ON swaps (slot);
+  CREATE INDEX idx_swaps_trader ON swaps (trader);
+  CREATE INDEX idx_swaps_pool ON swaps (pool);
+
+  CREATE TABLE token_balance_changes (
+    signature TEXT NOT NULL,
+    account_index INTEGER NOT NULL,
+    slot INTEGER NOT NULL,
+    account TEXT NOT NULL,
+    owner TEXT NOT NULL,
+    mint TEXT NOT NULL,
+    decimals INTEGER NOT NULL,
+    change INTEGER NOT NULL,
+    PRIMARY KEY (signature, account_index)
+  );
+  CREATE INDEX idx_token_balance_changes_owner ON token_balance_changes (owner, mint);
+  `,
+  `
+  ALTER TABLE transactions ADD COLUMN status TEXT NOT NULL DEFAULT 'final';
+  ALTER TABLE swaps ADD COLUMN status TEXT NOT NULL DEFAULT 'final';
+
+  CREATE TABLE slots (
+    slot INTEGER PRIMARY KEY,
+    blockhash TEXT NOT NULL,
+    parent_slot INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+  );
+  CREATE INDEX idx_slots_status ON slots (status);
+  `,
+  `
+  ALTER TABLE swaps ADD COLUMN input_symbol TEXT;
+  ALTER TABLE swaps ADD COLUMN input_name TEXT;
+  ALTER TABLE swaps ADD COLUMN output_symbol TEXT;
+  ALTER TABLE swaps ADD COLUMN output_name TEXT;
+  ALTER TABLE token_balance_changes ADD COLUMN symbol TEXT;
+  ALTER TABLE token_balance_changes ADD COLUMN name TEXT;
+  `,
+  // 数量从 REAL 改为整数字符串，同时保存换算后的小数字符串。
+  // 旧的 swap 记录只有四舍五入后的小数，无法还原最小单位，amount 记为 NULL，重新索引后补全
+  db => {
+    db.exec(`
+    CREATE TABLE swaps_v4 (
+      signature TEXT NOT NULL,
+      outer_index INTEGER NOT NULL,
+      inner_index INTEGER NOT NULL,
+      depth INTEGER NOT NULL,
+      slot INTEGER NOT NULL,
+      block_time TEXT,
+      protocol TEXT,
+      pool TEXT,
+      trader TEXT NOT NULL,
+      counterparty TEXT NOT NULL,
+      input_mint TEXT NOT NULL,
+      input_amount TEXT,
+      input_ui_amount TEXT NOT NULL,
+      input_decimals INTEGER NOT NULL,
+      input_from TEXT NOT NULL,
+      input_to TEXT NOT NULL,
+      output_mint TEXT NOT NULL,
+      output_amount TEXT,
+      output_ui_amount TEXT NOT NULL,
+      output_decimals INTEGER NOT NULL,
+      output_from TEXT NOT NULL,
+      output_to TEXT NOT NULL,
+      status TEXT NOT NULL DEFAULT 'final',
+      input_symbol TEXT,
+      input_name TEXT,
+      output_symbol TEXT,
+      output_name TEXT,
+      PRIMARY KEY (signature, outer_index, inner_index)
+    );
+    INSERT INTO swaps_v4
+    SELECT signature, outer_index, inner_index, depth, slot, block_time, protocol, pool,
+      trader, counterparty, input_mint, NULL, CAST(input_amount AS TEXT), input_decimals,
+      input_from, input_to, output_mint, NULL, CAST(output_amount AS TEXT), output_decimals,
+      output_from, output_to, status, input_symbol, input_name, output_symbol, output_name
+    FROM swaps;
+    DROP TABLE swaps;
+    ALTER TABLE swaps_v4 RENAME TO swaps;
+    CREATE INDEX idx_swaps_slot ON swaps (slot);
+    CREATE INDEX idx_swaps_trader ON swaps (trader);
+    CREATE INDEX idx_swaps_pool ON swaps (pool);
+
+    CREATE TABLE token_balance_changes_v4 (
+      signature TEXT NOT NULL,
+      account_index INTEGER NOT NULL,
+      slot INTEGER NOT NULL,
+      account TEXT NOT NULL,
+      owner TEXT NOT NULL,
+      mint TEXT NOT NULL,
+      decimals INTEGER NOT NULL,
+      change TEXT NOT NULL,
+      ui_change TEXT NOT NULL,
+      symbol TEXT,
+      name TEXT,
+      PRIMARY KEY (signature, account_index)
+    );
+    INSERT INTO token_balance_changes_v4
+    SELECT signature, account_index, slot, account, owner, mint, decimals,
+      CAST(change AS TEXT), '', symbol, name
+    FROM token_balance_changes;
+    DROP TABLE token_balance_changes;
+    ALTER TABLE token_balance_changes_v4 RENAME TO token_balance_changes;
+    CREATE INDEX idx_token_balance_changes_owner ON token_balance_changes (owner, mint);
+    `);
+
+    const rows = db
+      .prepare('SELECT signature, account_index, decimals, change FROM token_balance_changes')
+      .all() as { signature: string; account_index: number; decimals: number; change: string }[];
+    const update = db.prepare(
+      'UPDATE token_balance_changes SET ui_change = ? WHERE signature = ? AND account_index = ?'
+    );
+    for (const row of rows) {
+      update.run(formatUnits(row.change, row.decimals), row.signature, row.account_index);
+    }
+  },
+  // 成交价格和 K 线；K 线是 swaps 的派生数据，迁移时按已有的 swap 全部重建
+  db => {
+    db.exec(`
+    ALTER TABLE swaps ADD COLUMN price TEXT;
+    CREATE INDEX idx_swaps_pool_time ON swaps (pool, block_time);
+    CREATE INDEX idx_swaps_pair_time ON swaps (input_mint, output_mint, block_time);
+
+    CREATE TABLE candles (
+      market_type TEXT NOT NULL,
+      market TEXT NOT NULL,
+      interval TEXT NOT NULL,
+      open_time TEXT NOT NULL,
+      base_mint TEXT NOT NULL,
+      quote_mint TEXT NOT NULL,
+      base_decimals INTEGER NOT NULL,
+      quote_decimals INTEGER NOT NULL,
+      open TEXT NOT NULL,
+      high TEXT NOT NULL,
+      low TEXT NOT NULL,
+      close TEXT NOT NULL,
+      base_volume TEXT NOT NULL,
+      base_ui_volume TEXT NOT NULL,
+      quote_volume TEXT NOT NULL,
+      quote_ui_volume TEXT NOT NULL,
+      trades INTEGER NOT NULL,
+      PRIMARY KEY (market_type, market, interval, open_time)
+    );
+    `);
+
+    const rows = db
+      .prepare(
+        `SELECT signature, outer_index, inner_index, input_amount, input_decimals,
+          output_amount, output_decimals
+        FROM swaps WHERE input_amount IS NOT NULL AND output_amount IS NOT NULL`
+      )
+      .all() as SwapRow[];
+    const update = db.prepare(
+      'UPDATE swaps SET price = ? WHERE signature = ? AND outer_index = ? AND inner_index = ?'
+    );
+    for (const row of rows) {
+      const price = swapPrice(row);
+      update.run(price, row.signature, row.outer_index, row.inner_index);
+    }
+
+    const candles = new Map<string, CandleKey>();
+    collectCandles(
+      db.prepare('SELECT pool, input_mint, output_mint, block_time FROM swaps').all() as CandleSource[],
+      candles
+    );
+    rebuildCandles(db, candles);
+  },
+  `
+  ALTER TABLE swaps ADD COLUMN input_reserve TEXT;
+  ALTER TABLE swaps ADD COLUMN output_reserve TEXT;
+
+  CREATE TABLE pools (
+    address TEXT PRIMARY KEY,
+    protocol TEXT NOT NULL,
+    base_mint TEXT NOT NULL,
+    quote_mint TEXT NOT NULL,
+    base_vault TEXT NOT NULL,
+    quote_vault TEXT NOT NULL,
+    base_decimals INTEGER NOT NULL,
+    quote_decimals INTEGER NOT NULL,
+    lp_mint TEXT,
+    created_signature TEXT,
+    created_slot INTEGER,
+    discovered_slot INTEGER NOT NULL
+  );
+  CREATE INDEX idx_pools_base_mint ON pools (base_mint);
+  CREATE INDEX idx_pools_quote_mint ON pools (quote_mint);
+
+  CREATE TABLE pool_reserves (
+    pool TEXT NOT NULL,
+    signature TEXT NOT NULL,
+    slot INTEGER NOT NULL,
+    base_reserve TEXT NOT NULL,
+    quote_reserve TEXT NOT NULL,
+    PRIMARY KEY (pool, signature)
+  );
+  CREATE INDEX idx_pool_reserves_slot ON pool_reserves (slot);
+  CREATE INDEX idx_pool_reserves_pool_slot ON pool_reserves (pool, slot);
+  `,
+  `
+  CREATE TABLE liquidity_events (
+    signature TEXT NOT NULL,
+    outer_index INTEGER NOT NULL,
+    inner_index INTEGER NOT NULL,
+    depth INTEGER NOT NULL,
+    slot INTEGER NOT NULL,
+    block_time TEXT,
+    status TEXT NOT NULL,
+    protocol TEXT NOT NULL,
+    type TEXT NOT NULL,
+    pool TEXT,
+    owner TEXT NOT NULL,
+    position TEXT,
+    position_mint TEXT,
+    lp_mint TEXT,
+    tick_lower INTEGER,
+    tick_upper INTEGER,
+    liquidity TEXT,
+    token0_mint TEXT,
+    token0_amount TEXT,
+    token0_ui_amount TEXT,
+    token0_decimals INTEGER,
+    token1_mint TEXT,
+    token1_amount TEXT,
+    token1_ui_amount TEXT,
+    token1_decimals INTEGER,
+    PRIMARY KEY (signature, outer_index, inner_index)
+  );
+  CREATE INDEX idx_liquidity_events_slot ON liquidity_events (slot);
+  CREATE INDEX idx_liquidity_events_pool ON liquidity_events (pool);
+  CREATE INDEX idx_liquidity_events_owner ON liquidity_events (owner);
+  CREATE INDEX idx_liquidity_events_position_mint ON liquidity_events (position_mint);
+  `,
+  `
+  CREATE TABLE webhook_dead_letters (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    url TEXT NOT NULL,
+    delivery_id TEXT NOT NULL,
+    payload TEXT NOT NULL,
+    attempts INTEGER NOT NULL,
+    error TEXT NOT NULL,
+    failed_at TEXT NOT NULL
+  );
+  `,
+  `
+  CREATE TABLE wallet_activity (
+    signature TEXT NOT NULL,
+    wallet TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    slot INTEGER NOT NULL,
+    block_time TEXT,
+    status TEXT NOT NULL,
+    watchlists TEXT NOT NULL,
+    type TEXT NOT NULL,
+    action TEXT NOT NULL,
+    outer_index INTEGER,
+    inner_index INTEGER,
+    protocol TEXT,
+    pool TEXT,
+    changes TEXT NOT NULL,
+    base_mint TEXT,
+    quote_mint TEXT,
+    base_decimals INTEGER,
+    quote_decimals INTEGER,
+    base_change TEXT,
+    quote_change TEXT,
+    PRIMARY KEY (signature, wallet, seq)
+  );
+  CREATE INDEX idx_wallet_activity_wallet_slot ON wallet_activity (wallet, slot);
+  CREATE INDEX idx_wallet_activity_slot ON wallet_activity (slot);
+
+  CREATE TABLE wallet_positions (
+    wallet TEXT NOT NULL,
+    base_mint TEXT NOT NULL,
+    quote_mint TEXT NOT NULL,
+    base_decimals INTEGER NOT NULL,
+    quote_decimals INTEGER NOT NULL,
+    amount TEXT NOT NULL,
+    cost TEXT NOT NULL,
+    realized_pnl TEXT NOT NULL,
+    buys INTEGER NOT NULL,
+    sells INTEGER NOT NULL,
+    untracked_sold TEXT NOT NULL,
+    last_slot INTEGER NOT NULL,
+    PRIMARY KEY (wallet, base_mint, quote_mint)
+  );
+  `,
+  `
+  ALTER TABLE instructions ADD COLUMN events TEXT;
+  `,
+];
+
+export class SqliteStorage {
+  private db: Database.Database;
+
+  constructor(filePath: string) {
+    const dir = path.dirname(filePath);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+
+    this.db = new Database(filePath);
+    this.db.pragma('journal_mode = WAL');
+    this.migrate();
+  }
+
+  private migrate() {
+    const version = this.db.pragma('user_version', { simple: true }) as number;
+    for (let i = version; i < MIGRATIONS.length; i++) {
+      this.db.transaction(() => {
+        const migration = MIGRATIONS[i];
+        if (typeof migration === 'string') {
+          this.db.exec(migration);
+        } else {
+          migration(this.db);
+        }
+        this.db.pragma(`user_version = ${i + 1}`);
+      })();
+    }
+  }
+
+  // 同一区块的交易在一个数据库事务中写入，并记录区块状态
+  saveBlock(block: BlockRecord, data: IndexedTransaction[]) {
+    this.db.transaction(() => {
+      this.db
+        .prepare(
+          `INSERT OR REPLACE INTO slots (slot, blockhash, parent_slot, status, updated_at)
+          VALUES (?, ?, ?, ?, ?)`
+        )
+        .run(block.slot, block.blockhash, block.parentSlot, block.status, new Date().toISOString());
+
+      const candles = new Map<string, CandleKey>();
+      const positions = new Map<string, PositionUpdate>();
+      for (const item of data) {
+        this.writeTransaction(item, block.status, candles, positions);
+      }
+      rebuildCandles(this.db, candles);
+      updatePositions(this.db, positions);
+    })();
+  }
+
+  // 以签名为单位整体替换：重复处理同一区块时覆盖旧记录，不会产生重复数据
+  saveTransaction(data: IndexedTransaction, status: RecordStatus = 'final') {
+    this.db.transaction(() => {
+      const candles = new Map<string, CandleKey>();
+      const positions = new Map<string, PositionUpdate>();
+      this.writeTransaction(data, status, candles, positions);
+      rebuildCandles(this.db, candles);
+      updatePositions(this.db, positions);
+    })();
+  }
+
+  // 写入交易记录，并把替换前后的 swap 所在的 K 线加入 candles 等待重建；
+  // 被替换的钱包成交所在的持仓标记为重建，新写入的成交加入 positions 等待累计
+  private writeTransaction(
+    data: IndexedTransaction,
+    status: RecordStatus,
+    candles: Map<string, CandleKey>,
+    positions: Map<string, PositionUpdate>
+  ) {
+    const { transaction, instructions, swaps, balanceChanges } = data;
+    const signature = transaction.signature;
+
+    collectCandles(
+      this.db
+        .prepare('SELECT pool, input_mint, output_mint, block_time FROM swaps WHERE signature = ?')
+        .all(signature) as CandleSource[],
+      candles
+    );
+
+    this.db.prepare('DELETE FROM instructions WHERE signature = ?').run(signature);
+    this.db.prepare('DELETE FROM swaps WHERE signature = ?').run(signature);
+    this.db.prepare('DELETE FROM token_balance_changes WHERE signature = ?').run(signature);
+    this.db.prepare('DELETE FROM pool_reserves WHERE signature = ?').run(signature);
+    this.db.prepare('DELETE FROM liquidity_events WHERE signature = ?').run(signature);
+    collectPositions(
+      this.db
+        .prepare('SELECT wallet, base_mint, quote_mint FROM wallet_activity WHERE signature = ?')
+        .all(signature) as PositionSource[],
+      positions
+    );
+    this.db.prepare('DELETE FROM wallet_activity WHERE signature = ?').run(signature);
+
+    this.db
+      .prepare(
+        `INSERT OR REPLACE INTO transactions
+          (signature, slot, block_time, programs, accounts, logs, indexed_at, status)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        signature,
+        transaction.slot,
+        transaction.blockTime,
+        JSON.stringify(transaction.programs),
+        JSON.stringify(transaction.accounts),
+        JSON.stringify(transaction.logs),
+        new Date().toISOString(),
+        status
+      );
+
+    const insertInstruction = this.db.prepare(
+      `INSERT OR REPLACE INTO instructions
+        (signature, outer_index, inner_index, depth, program_id, protocol, type, name,
+         discriminator, data, args, accounts, event, events)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const ix of instructions) {
+      insertInstruction.run(
+        signature,
+        ix.outerIndex,
+        ix.innerIndex ?? -1,
+        ix.depth ?? -1,
+        ix.programId,
+        ix.protocol ?? null,
+        ix.type ?? null,
+        ix.name ?? null,
+        ix.discriminator ?? null,
+        ix.data,
+        toJson(ix.args),
+        toJson(ix.accounts),
+        toJson(ix.event),
+        toJson(ix.events)
+      );
+    }
+
+    const insertSwap = this.db.prepare(
+      `INSERT OR REPLACE INTO swaps
+        (signature, outer_index, inner_index, depth, slot, block_time, protocol, pool,
+         trader, counterparty, input_mint, input_amount, input_ui_amount, input_decimals,
+         input_from, input_to, output_mint, output_amount, output_ui_amount, output_decimals,
+         output_from, output_to, status, input_symbol, input_name, output_symbol, output_name,
+         price, input_reserve, output_reserve)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const swap of swaps) {
+      insertSwap.run(
+        signature,
+        swap.outerIndex,
+        swap.innerIndex ?? -1,
+        swap.depth ?? -1,
+        transaction.slot,
+        transaction.blockTime,
+        swap.protocol ?? null,
+        swap.pool ?? null,
+        swap.trader,
+        swap.counterparty,
+        swap.inputMint,
+        swap.inputAmount,
+        swap.inputUiAmount,
+        swap.inputDecimals,
+        swap.inputFrom,
+        swap.inputTo,
+        swap.outputMint,
+        swap.outputAmount,
+        swap.outputUiAmount,
+        swap.outputDecimals,
+        swap.outputFrom,
+        swap.outputTo,
+        status,
+        swap.inputSymbol ?? null,
+        swap.inputName ?? null,
+        swap.outputSymbol ?? null,
+        swap.outputName ?? null,
+        swap.price ?? null,
+        swap.inputReserve ?? null,
+        swap.outputReserve ?? null
+      );
+    }
+    collectCandles(
+      swaps.map(swap => ({
+        pool: swap.pool ?? null,
+        input_mint: swap.inputMint,
+        output_mint: swap.outputMint,
+        block_time: transaction.blockTime,
+      })),
+      candles
+    );
+
+    const insertLiquidityEvent = this.db.prepare(
+      `INSERT OR REPLACE INTO liquidity_events
+        (signature, outer_index, inner_index, depth, slot, block_time, status, protocol, type,
+         pool, owner, position, position_mint, lp_mint, tick_lower, tick_upper, liquidity,
+         token0_mint, token0_amount, token0_ui_amount, token0_decimals,
+         token1_mint, token1_amount, token1_ui_amount, token1_decimals)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const event of data.liquidityEvents) {
+      insertLiquidityEvent.run(
+        signature,
+        event.outerIndex,
+        event.innerIndex ?? -1,
+        event.depth ?? -1,
+        transaction.slot,
+        transaction.blockTime,
+        status,
+        event.protocol,
+        event.type,
+        event.pool ?? null,
+        event.owner,
+        event.position ?? null,
+        event.positionMint ?? null,
+        event.lpMint ?? null,
+        event.tickLower ?? null,
+        event.tickUpper ?? null,
+        event.liquidity ?? null,
+        event.token0Mint ?? null,
+        event.token0Amount ?? null,
+        event.token0UiAmount ?? null,
+        event.token0Decimals ?? null,
+        event.token1Mint ?? null,
+        event.token1Amount ?? null,
+        event.token1UiAmount ?? null,
+        event.token1Decimals ?? null
+      );
+    }
+
+    const insertBalanceChange = this.db.prepare(
+      `INSERT OR REPLACE INTO token_balance_changes
+        (signature, account_index, slot, account, owner, mint, decimals, change, ui_change,
+         symbol, name)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    for (const change of balanceChanges) {
+      insertBalanceChange.run(
+        signature,
+        change.accountIndex,
+        transaction.slot,
+        change.account,
+        change.owner,
+        change.mint,
+        change.decimals,
+        change.change,
+        change.uiChange,
+        change.symbol ?? null,
+        change.name ?? null
+      );
+    }
+
+    const insertWalletActivity = this.db.prepare(
+      `INSERT OR REPLACE INTO wallet_activity
+        (signature, wallet, seq, slot, block_time, status, watchlists, type, action, outer_index,
+         inner_index, protocol, pool, changes, base_mint, quote_mint, base_decimals,
+         quote_decimals, base_change, quote_change)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+    );
+    const walletActivity = data.walletActivity || [];
+    walletActivity.forEach((activity, seq) => {
+      insertWalletActivity.run(
+        signature,
+        activity.wallet,
+        seq,
+        transaction.slot,
+        transaction.blockTime,
+        status,
+        JSON.stringify(activity.watchlists),
+        activity.type,
+        activity.action,
+        activity.outerIndex ?? null,
+        activity.innerIndex ?? -1,
+        activity.protocol ?? null,
+        activity.pool ?? null,
+        JSON.stringify(activity.changes),
+        activity.trade?.baseMint ?? null,
+        activity.trade?.quoteMint ?? null,
+        activity.trade?.baseDecimals ?? null,
+        activity.trade?.quoteDecimals ?? null,
+        activity.trade?.baseChange ?? null,
+        activity.trade?.quoteChange ?? null
+      );
+    });
+    walletActivity.forEach((activity, seq) => {
+      const trade = activity.trade;
+      if (!trade) return;
+      positionUpdate(positions, activity.wallet, trade.baseMint, trade.quoteMint).trades.push({
+        slot: transaction.slot,
+        signature,
+        seq,
+        baseDecimals: trade.baseDecimals,
+        quoteDecimals: trade.quoteDecimals,
+        baseChange: BigInt(trade.baseChange),
+        quoteChange: BigInt(trade.quoteChange),
+      });
+    });
+
+    // 池子信息只增不删；创建交易和 LP mint 以最先记录到的为准
+    const upsertPool = this.db.prepare(
+      `INSERT INTO pools
+        (address, protocol, base_mint, quote_mint, base_vault, quote_vault, base_decimals,
+         quote_decimals, lp_mint, created_signature, created_slot, discovered_slot)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (address) DO UPDATE SET
+        lp_mint = COALESCE(pools.lp_mint, excluded.lp_mint),
+        created_signature = COALESCE(pools.created_signature, excluded.created_signature),
+        created_slot = COALESCE(pools.created_slot, excluded.created_slot),
+        discovered_slot = MIN(pools.discovered_slot, excluded.discovered_slot)`
+    );
+    const insertReserves = this.db.prepare(
+      `INSERT OR REPLACE INTO pool_reserves (pool, signature, slot, base_reserve, quote_reserve)
+      VALUES (?, ?, ?, ?, ?)`
+    );
+    for (const pool of data.pools) {
+      upsertPool.run(
+        pool.address,
+        pool.protocol,
+        pool.baseMint,
+        pool.quoteMint,
+        pool.baseVault,
+        pool.quoteVault,
+        pool.baseDecimals,
+        pool.quoteDecimals,
+        pool.lpMint ?? null,
+        pool.created ? signature : null,
+        pool.created ? transaction.slot : null,
+        transaction.slot
+      );
+      insertReserves.run(
+        pool.address,
+        signature,
+        transaction.slot,
+        pool.baseReserve,
+        pool.quoteReserve
+      );
+    }
+  }
+
+  querySwaps(query: SwapQuery): { swaps: StoredSwap[]; nextCursor?: SwapCursor } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+
+    if (query.mint) {
+      conditions.push('(input_mint = ? OR output_mint = ?)');
+      params.push(query.mint, query.mint);
+    }
+    if (query.pool) {
+      conditions.push('pool = ?');
+      params.push(query.pool);
+    }
+    if (query.trader) {
+      conditions.push('trader = ?');
+      params.push(query.trader);
+    }
+    if (query.fromSlot !== undefined) {
+      conditions.push('slot >= ?');
+      params.push(query.fromSlot);
+    }
+    if (query.toSlot !== undefined) {
+      conditions.push('slot <= ?');
+      params.push(query.toSlot);
+    }
+    if (query.fromTime) {
+      conditions.push('block_time >= ?');
+      params.push(query.fromTime);
+    }
+    if (query.toTime) {
+      conditions.push('block_time <= ?');
+      params.push(query.toTime);
+    }
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.cursor) {
+      conditions.push('(slot, signature, outer_index, inner_index) < (?, ?, ?, ?)');
+      params.push(
+        query.cursor.slot,
+        query.cursor.signature,
+        query.cursor.outerIndex,
+        query.cursor.innerIndex
+      );
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    // 多取一条用于判断是否还有下一页
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM swaps ${where}
+        ORDER BY slot DESC, signature DESC, outer_index DESC, inner_index DESC
+        LIMIT ?`
+      )
+      .all(...params, query.limit + 1) as SwapRow[];
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      swaps: page.map(toStoredSwap),
+      nextCursor:
+        rows.length > query.limit
+          ? {
+              slot: last.slot,
+              signature: last.signature,
+              outerIndex: last.outer_index,
+              innerIndex: last.inner_index,
+            }
+          : undefined,
+    };
+  }
+
+  queryLiquidityEvents(
+    query: LiquidityQuery
+  ): { events: StoredLiquidityEvent[]; nextCursor?: SwapCursor } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    const filters: [string, string | number | undefined][] = [
+      ['pool = ?', query.pool],
+      ['owner = ?', query.owner],
+      ['position_mint = ?', query.positionMint],
+      ['lp_mint = ?', query.lpMint],
+      ['type = ?', query.type],
+      ['slot >= ?', query.fromSlot],
+      ['slot <= ?', query.toSlot],
+      ['status = ?', query.status],
+    ];
+    for (const [condition, value] of filters) {
+      if (value !== undefined) {
+        conditions.push(condition);
+        params.push(value);
+      }
+    }
+    if (query.cursor) {
+      conditions.push('(slot, signature, outer_index, inner_index) < (?, ?, ?, ?)');
+      params.push(
+        query.cursor.slot,
+        query.cursor.signature,
+        query.cursor.outerIndex,
+        query.cursor.innerIndex
+      );
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    // 多取一条用于判断是否还有下一页
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM liquidity_events ${where}
+        ORDER BY slot DESC, signature DESC, outer_index DESC, inner_index DESC
+        LIMIT ?`
+      )
+      .all(...params, query.limit + 1) as LiquidityEventRow[];
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      events: page.map(toStoredLiquidityEvent),
+      nextCursor:
+        rows.length > query.limit
+          ? {
+              slot: last.slot,
+              signature: last.signature,
+              outerIndex: last.outer_index,
+              innerIndex: last.inner_index,
+            }
+          : undefined,
+    };
+  }
+
+  // 返回最近的 limit 根 K 线，按开始时间升序
+  queryCandles(query: CandleQuery): Candle[] {
+    const conditions = ['market_type = ?', 'market = ?', 'interval = ?'];
+    const params: (string | number)[] = [query.marketType, query.market, query.interval];
+    if (query.fromTime) {
+      conditions.push('open_time >= ?');
+      params.push(query.fromTime);
+    }
+    if (query.toTime) {
+      conditions.push('open_time <= ?');
+      params.push(query.toTime);
+    }
+
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM candles WHERE ${conditions.join(' AND ')}
+        ORDER BY open_time DESC
+        LIMIT ?`
+      )
+      .all(...params, query.limit) as CandleRow[];
+    return rows.reverse().map(toCandle);
+  }
+
+  getPool(address: string): StoredPool | null {
+    const row = this.db.prepare('SELECT * FROM pools WHERE address = ?').get(address) as
+      | PoolRow
+      | undefined;
+    return row ? this.toStoredPool(row) : null;
+  }
+
+  queryPools(query: PoolQuery): StoredPool[] {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    if (query.mint) {
+      conditions.push('(base_mint = ? OR quote_mint = ?)');
+      params.push(query.mint, query.mint);
+    }
+    if (query.protocol) {
+      conditions.push('protocol = ?');
+      params.push(query.protocol);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db
+      .prepare(`SELECT * FROM pools ${where} ORDER BY discovered_slot DESC, address LIMIT ?`)
+      .all(...params, query.limit) as PoolRow[];
+    return rows.map(row => this.toStoredPool(row));
+  }
+
+  getTransaction(signature: string): StoredTransaction | null {
+    const tx = this.db
+      .prepare('SELECT * FROM transactions WHERE signature = ?')
+      .get(signature) as TransactionRow | undefined;
+    if (!tx) {
+      return null;
+    }
+
+    const instructions = this.db
+      .prepare('SELECT * FROM instructions WHERE signature = ? ORDER BY outer_index, inner_index')
+      .all(signature) as InstructionRow[];
+    const swaps = this.db
+      .prepare('SELECT * FROM swaps WHERE signature = ? ORDER BY outer_index, inner_index')
+      .all(signature) as SwapRow[];
+    const liquidityEvents = this.db
+      .prepare(
+        'SELECT * FROM liquidity_events WHERE signature = ? ORDER BY outer_index, inner_index'
+      )
+      .all(signature) as LiquidityEventRow[];
+    const balanceChanges = this.db
+      .prepare('SELECT * FROM token_balance_changes WHERE signature = ? ORDER BY account_index')
+      .all(signature) as BalanceChangeRow[];
+
+    return {
+      signature: tx.signature,
+      status: tx.status,
+      slot: tx.slot,
+      blockTime: tx.block_time,
+      programs: JSON.parse(tx.programs),
+      accounts: JSON.parse(tx.accounts),
+      logs: JSON.parse(tx.logs),
+      instructions: instructions.map(ix => ({
+        outerIndex: ix.outer_index,
+        innerIndex: ix.inner_index < 0 ? undefined : ix.inner_index,
+        depth: ix.depth < 0 ? undefined : ix.depth,
+        programId: ix.program_id,
+        protocol: ix.protocol ?? undefined,
+        type: ix.type ?? undefined,
+        name: ix.name ?? undefined,
+        discriminator: ix.discriminator ?? undefined,
+        data: ix.data,
+        args: fromJson(ix.args),
+        accounts: fromJson(ix.accounts),
+        event: fromJson(ix.event),
+        events: fromJson(ix.events),
+      })),
+      swaps: swaps.map(toStoredSwap),
+      liquidityEvents: liquidityEvents.map(toStoredLiquidityEvent),
+      balanceChanges: balanceChanges.map(change => ({
+        accountIndex: change.account_index,
+        account: change.account,
+        owner: change.owner,
+        mint: change.mint,
+        decimals: change.decimals,
+        change: change.change,
+        uiChange: change.ui_change,
+        symbol: change.symbol ?? undefined,
+        name: change.name ?? undefined,
+      })),
+    };
+  }
+
+  getProvisionalSlots(): number[] {
+    const rows = this.db
+      .prepare("SELECT slot FROM slots WHERE status = 'provisional' ORDER BY slot")
+      .all() as { slot: number }[];
+    return rows.map(row => row.slot);
+  }
+
+  // 区块已达到 finalized，记录转为最终状态
+  finalizeSlots(slots: number[]) {
+    const now = new Date().toISOString();
+    this.db.transaction(() => {
+      for (const slot of slots) {
+        this.db
+          .prepare("UPDATE slots SET status = 'final', updated_at = ? WHERE slot = ?")
+          .run(now, slot);
+        this.db.prepare("UPDATE transactions SET status = 'final' WHERE slot = ?").run(slot);
+        this.db.prepare("UPDATE swaps SET status = 'final' WHERE slot = ?").run(slot);
+        this.db.prepare("UPDATE liquidity_events SET status = 'final' WHERE slot = ?").run(slot);
+        this.db.prepare("UPDATE wallet_activity SET status = 'final' WHERE slot = ?").run(slot);
+      }
+    })();
+  }
+
+  // 区块不在规范链上，删除该区块写入的所有记录，返回被撤回的交易签名
+  // 同一交易可能重新打包进其他区块，此时 transactions.slot 已更新为新区块，不会被删除
+  retractSlot(slot: number): string[] {
+    return this.db.transaction(() => {
+      const rows = this.db
+        .prepare('SELECT signature FROM transactions WHERE slot = ?')
+        .all(slot) as { signature: string }[];
+      const signatures = rows.map(row => row.signature);
+
+      const candles = new Map<string, CandleKey>();
+      collectCandles(
+        this.db
+          .prepare('SELECT pool, input_mint, output_mint, block_time FROM swaps WHERE slot = ?')
+          .all(slot) as CandleSource[],
+        candles
+      );
+      const positions = new Map<string, PositionUpdate>();
+      collectPositions(
+        this.db
+          .prepare('SELECT wallet, base_mint, quote_mint FROM wallet_activity WHERE slot = ?')
+          .all(slot) as PositionSource[],
+        positions
+      );
+
+      for (const signature of signatures) {
+        this.db.prepare('DELETE FROM instructions WHERE signature = ?').run(signature);
+      }
+      this.db.prepare('DELETE FROM swaps WHERE slot = ?').run(slot);
+      this.db.prepare('DELETE FROM token_balance_changes WHERE slot = ?').run(slot);
+      this.db.prepare('DELETE FROM pool_reserves WHERE slot = ?').run(slot);
+      this.db.prepare('DELETE FROM liquidity_events WHERE slot = ?').run(slot);
+      this.db.prepare('DELETE FROM wallet_activity WHERE slot = ?').run(slot);
+      this.db
+        .prepare('UPDATE pools SET created_signature = NULL, created_slot = NULL WHERE created_slot = ?')
+        .run(slot);
+      this.db.prepare('DELETE FROM transactions WHERE slot = ?').run(slot);
+      this.db
+        .prepare("UPDATE slots SET status = 'retracted', updated_at = ? WHERE slot = ?")
+        .run(new Date().toISOString(), slot);
+      rebuildCandles(this.db, candles);
+      updatePositions(this.db, positions);
+
+      return signatures;
+    })();
+  }
+
+  // 同一区块内交易的先后顺序没有保存，同一区块有多条记录时按签名取最后一条
+  private toStoredPool(row: PoolRow): StoredPool {
+    const reserves = this.db
+      .prepare(
+        'SELECT * FROM pool_reserves WHERE pool = ? ORDER BY slot DESC, signature DESC LIMIT 1'
+      )
+      .get(row.address) as PoolReservesRow | undefined;
+
+    return {
+      address: row.address,
+      protocol: row.protocol,
+      baseMint: row.base_mint,
+      quoteMint: row.quote_mint,
+      baseVault: row.base_vault,
+      quoteVault: row.quote_vault,
+      baseDecimals: row.base_decimals,
+      quoteDecimals: row.quote_decimals,
+      lpMint: row.lp_mint,
+      createdSignature: row.created_signature,
+      createdSlot: row.created_slot,
+      discoveredSlot: row.discovered_slot,
+      reserves: reserves
+        ? {
+            slot: reserves.slot,
+            signature: reserves.signature,
+            base: reserves.base_reserve,
+            baseUi: formatUnits(reserves.base_reserve, row.base_decimals),
+            quote: reserves.quote_reserve,
+            quoteUi: formatUnits(reserves.quote_reserve, row.quote_decimals),
+          }
+        : null,
+    };
+  }
+
+  // 监听钱包的活动，按区块倒序分页
+  queryWalletActivity(
+    query: WalletActivityQuery
+  ): { activity: StoredWalletActivity[]; nextCursor?: WalletActivityCursor } {
+    const conditions: string[] = [];
+    const params: (string | number)[] = [];
+    const filters: [string, string | number | undefined][] = [
+      ['wallet = ?', query.wallet],
+      ['EXISTS (SELECT 1 FROM json_each(watchlists) WHERE value = ?)', query.watchlist],
+      ['type = ?', query.type],
+      ['slot >= ?', query.fromSlot],
+      ['slot <= ?', query.toSlot],
+      ['status = ?', query.status],
+    ];
+    for (const [condition, value] of filters) {
+      if (value !== undefined) {
+        conditions.push(condition);
+        params.push(value);
+      }
+    }
+    if (query.cursor) {
+      conditions.push('(slot, signature, wallet, seq) < (?, ?, ?, ?)');
+      params.push(query.cursor.slot, query.cursor.signature, query.cursor.wallet, query.cursor.seq);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    // 多取一条用于判断是否还有下一页
+    const rows = this.db
+      .prepare(
+        `SELECT * FROM wallet_activity ${where}
+        ORDER BY slot DESC, signature DESC, wallet DESC, seq DESC
+        LIMIT ?`
+      )
+      .all(...params, query.limit + 1) as WalletActivityRow[];
+
+    const page = rows.slice(0, query.limit);
+    const last = page[page.length - 1];
+    return {
+      activity: page.map(toStoredWalletActivity),
+      nextCursor:
+        rows.length > query.limit
+          ? { slot: last.slot, signature: last.signature, wallet: last.wallet, seq: last.seq }
+          : undefined,
+    };
+  }
+
+  // 钱包在各交易对上的持仓和已实现盈亏，包括已经清仓的交易对
+  getWalletPositions(wallet: string): StoredWalletPosition[] {
+    const rows = this.db
+      .prepare('SELECT * FROM wallet_positions WHERE wallet = ? ORDER BY last_slot DESC, base_mint')
+      .all(wallet) as WalletPositionRow[];
+    return rows.map(toStoredWalletPosition);
+  }
+
+  saveWebhookDeadLetter(letter: WebhookDeadLetter) {
+    this.db
+      .prepare(
+        `INSERT INTO webhook_dead_letters (url, delivery_id, payload, attempts, error, failed_at)
+        VALUES (?, ?, ?, ?, ?, ?)`
+      )
+      .run(
+        letter.url,
+        letter.deliveryId,
+        letter.payload,
+        letter.attempts,
+        letter.error,
+        new Date().toISOString()
+      );
+  }
+
+  // 最近失败的在前
+  queryWebhookDeadLetters(limit: number): StoredWebhookDeadLetter[] {
+    const rows = this.db
+      .prepare('SELECT * FROM webhook_dead_letters ORDER BY id DESC LIMIT ?')
+      .all(limit) as WebhookDeadLetterRow[];
+    return rows.map(row => ({
+      id: row.id,
+      url: row.url,
+      deliveryId: row.delivery_id,
+      payload: row.payload,
+      attempts: row.attempts,
+      error: row.error,
+      failedAt: row.failed_at,
+    }));
+  }
+
+  close() {
+    this.db.close();
+  }
+}
+
+interface TransactionRow {
+  signature: string;
+  status: RecordStatus;
+  slot: number;
+  block_time: string | null;
+  programs: string;
+  accounts: string;
+  logs: string;
+}
+
+interface InstructionRow {
+  outer_index: number;
+  inner_index: number;
+  depth: number;
+  program_id: string;
+  protocol: string | null;
+  type: string | null;
+  name: string | null;
+  discriminator: string | null;
+  data: string;
+  args: string | null;
+  accounts: string | null;
+  event: string | null;
+  events: string | null;
+}
+
+interface SwapRow {
+  signature: string;
+  status: RecordStatus;
+  outer_index: number;
+  inner_index: number;
+  depth: number;
+  slot: number;
+  block_time: string | null;
+  protocol: string | null;
+  pool: string | null;
+  trader: string;
+  counterparty: string;
+  input_mint: string;
+  input_amount: string | null;
+  input_ui_amount: string;
+  input_decimals: number;
+  input_from: string;
+  input_to: string;
+  output_mint: string;
+  output_amount: string | null;
+  output_ui_amount: string;
+  output_decimals: number;
+  output_from: string;
+  output_to: string;
+  input_symbol: string | null;
+  input_name: string | null;
+  output_symbol: string | null;
+  output_name: string | null;
+  price: string | null;
+  input_reserve: string | null;
+  output_reserve: string | null;
+}
+
+interface LiquidityEventRow {
+  signature: string;
+  outer_index: number;
+  inner_index: number;
+  depth: number;
+  slot: number;
+  block_time: string | null;
+  status: RecordStatus;
+  protocol: string;
+  type: LiquidityInfo['type'];
+  pool: string | null;
+  owner: string;
+  position: string | null;
+  position_mint: string | null;
+  lp_mint: string | null;
+  tick_lower: number | null;
+  tick_upper: number | null;
+  liquidity: string | null;
+  token0_mint: string | null;
+  token0_amount: string | null;
+  token0_ui_amount: string | null;
+  token0_decimals: number | null;
+  token1_mint: string | null;
+  token1_amount: string | null;
+  token1_ui_amount: string | null;
+  token1_decimals: number | null;
+}
+
+interface WebhookDeadLetterRow {
+  id: number;
+  url: string;
+  delivery_id: string;
+  payload: string;
+  attempts: number;
+  error: string;
+  failed_at: string;
+}
+
+interface PoolRow {
+  address: string;
+  protocol: string;
+  base_mint: string;
+  quote_mint: string;
+  base_vault: string;
+  quote_vault: string;
+  base_decimals: number;
+  quote_decimals: number;
+  lp_mint: string | null;
+  created_signature: string | null;
+  created_slot: number | null;
+  discovered_slot: number;
+}
+
+interface PoolReservesRow {
+  pool: string;
+  signature: string;
+  slot: number;
+  base_reserve: string;
+  quote_reserve: string;
+}
+
+interface CandleRow {
+  market_type: MarketType;
+  market: string;
+  interval: CandleInterval;
+  open_time: string;
+  base_mint: string;
+  quote_mint: string;
+  base_decimals: number;
+  quote_decimals: number;
+  open: string;
+  high: string;
+  low: string;
+  close: string;
+  base_volume: string;
+  base_ui_volume: string;
+  quote_volume: string;
+  quote_ui_volume: string;
+  trades: number;
+}
+
+type CandleSource = Pick<SwapRow, 'pool' | 'input_mint' | 'output_mint' | 'block_time'>;
+
+// 需要重建的 1m K 线
+interface CandleKey {
+  marketType: MarketType;
+  market: string;
+  baseMint: string;
+  quoteMint: string;
+  openTime: string;
+}
+
+interface WalletActivityRow {
+  signature: string;
+  wallet: string;
+  seq: number;
+  slot: number;
+  block_time: string | null;
+  status: RecordStatus;
+  watchlists: string;
+  type: WalletActivityType;
+  action: string;
+  outer_index: number | null;
+  inner_index: number | null;
+  protocol: string | null;
+  pool: string | null;
+  changes: string;
+}
+
+interface WalletPositionRow {
+  wallet: string;
+  base_mint: string;
+  quote_mint: string;
+  base_decimals: number;
+  quote_decimals: number;
+  amount: string;
+  cost: string;
+  realized_pnl: string;
+  buys: number;
+  sells: number;
+  untracked_sold: string;
+  last_slot: number;
+}
+
+interface BalanceChangeRow {
+  account_index: number;
+  account: string;
+  owner: string;
+  mint: string;
+  decimals: number;
+  change: string;
+  ui_change: string;
+  symbol: string | null;
+  name: string | null;
+}
+
+function toStoredSwap(row: SwapRow): StoredSwap {
+  return {
+    signature: row.signature,
+    status: row.status,
+    outerIndex: row.outer_index,
+    innerIndex: row.inner_index < 0 ? null : row.inner_index,
+    depth: row.depth < 0 ? null : row.depth,
+    slot: row.slot,
+    blockTime: row.block_time,
+    protocol: row.protocol,
+    pool: row.pool,
+    trader: row.trader,
+    counterparty: row.counterparty,
+    input: {
+      mint: row.input_mint,
+      symbol: row.input_symbol,
+      name: row.input_name,
+      amount: row.input_amount,
+      uiAmount: row.input_ui_amount,
+      decimals: row.input_decimals,
+      from: row.input_from,
+      to: row.input_to,
+      reserve: row.input_reserve,
+    },
+    output: {
+      mint: row.output_mint,
+      symbol: row.output_symbol,
+      name: row.output_name,
+      amount: row.output_amount,
+      uiAmount: row.output_ui_amount,
+      decimals: row.output_decimals,
+      from: row.output_from,
+      to: row.output_to,
+      reserve: row.output_reserve,
+    },
+    price: row.price,
+  };
+}
+
+function toStoredWalletActivity(row: WalletActivityRow): StoredWalletActivity {
+  return {
+    signature: row.signature,
+    status: row.status,
+    slot: row.slot,
+    blockTime: row.block_time,
+    wallet: row.wallet,
+    watchlists: JSON.parse(row.watchlists),
+    type: row.type,
+    action: row.action,
+    outerIndex: row.outer_index,
+    innerIndex: row.inner_index === null || row.inner_index < 0 ? null : row.inner_index,
+    protocol: row.protocol,
+    pool: row.pool,
+    changes: JSON.parse(row.changes),
+  };
+}
+
+function toStoredWalletPosition(row: WalletPositionRow): StoredWalletPosition {
+  const position = {
+    amount: BigInt(row.amount),
+    cost: BigInt(row.cost),
+    realizedPnl: BigInt(row.realized_pnl),
+    buys: row.buys,
+    sells: row.sells,
+    untrackedSold: BigInt(row.untracked_sold),
+  };
+  return {
+    wallet: row.wallet,
+    baseMint: row.base_mint,
+    quoteMint: row.quote_mint,
+    baseDecimals: row.base_decimals,
+    quoteDecimals: row.quote_decimals,
+    amount: row.amount,
+    uiAmount: formatUnits(row.amount, row.base_decimals),
+    cost: row.cost,
+    uiCost: formatUnits(row.cost, row.quote_decimals),
+    averageCost: averageCost(position, row.base_decimals, row.quote_decimals),
+    realizedPnl: row.realized_pnl,
+    uiRealizedPnl: formatUnits(row.realized_pnl, row.quote_decimals),
+    buys: row.buys,
+    sells: row.sells,
+    untrackedSold: row.untracked_sold,
+    lastSlot: row.last_slot,
+  };
+}
+
+function toStoredLiquidityEvent(row: LiquidityEventRow): StoredLiquidityEvent {
+  return {
+    signature: row.signature,
+    status: row.status,
+    outerIndex: row.outer_index,
+    innerIndex: row.inner_index < 0 ? null : row.inner_index,
+    depth: row.depth < 0 ? null : row.depth,
+    slot: row.slot,
+    blockTime: row.block_time,
+    protocol: row.protocol,
+    type: row.type,
+    pool: row.pool,
+    owner: row.owner,
+    position: row.position,
+    positionMint: row.position_mint,
+    lpMint: row.lp_mint,
+    tickLower: row.tick_lower,
+    tickUpper: row.tick_upper,
+    liquidity: row.liquidity,
+    token0: row.token0_mint
+      ? {
+          mint: row.token0_mint,
+          amount: row.token0_amount,
+          uiAmount: row.token0_ui_amount,
+          decimals: row.token0_decimals,
+        }
+      : null,
+    token1: row.token1_mint
+      ? {
+          mint: row.token1_mint,
+          amount: row.token1_amount,
+          uiAmount: row.token1_ui_amount,
+          decimals: row.token1_decimals,
+        }
+      : null,
+  };
+}
+
+function toCandle(row: CandleRow): Candle {
+  return {
+    marketType: row.market_type,
+    market: row.market,
+    interval: row.interval,
+    openTime: row.open_time,
+    baseMint: row.base_mint,
+    quoteMint: row.quote_mint,
+    baseDecimals: row.base_decimals,
+    quoteDecimals: row.quote_decimals,
+    open: row.open,
+    high: row.high,
+    low: row.low,
+    close: row.close,
+    baseVolume: row.base_volume,
+    baseUiVolume: row.base_ui_volume,
+    quoteVolume: row.quote_volume,
+    quoteUiVolume: row.quote_ui_volume,
+    trades: row.trades,
+  };
+}
+
+function swapPrice(row: SwapRow): string | null {
+  const price = calculatePrice(
+    BigInt(row.input_amount!),
+    row.input_decimals,
+    BigInt(row.output_amount!),
+    row.output_decimals
+  );
+  return price === null ? null : formatUnits(price, PRICE_DECIMALS);
+}
+
+// 记录 swap 所在的池子和交易对 1m K 线；没有区块时间的 swap 无法归入 K 线
+function collectCandles(rows: CandleSource[], candles: Map<string, CandleKey>) {
+  for (const row of rows) {
+    if (!row.block_time) continue;
+
+    const { baseMint, quoteMint } = orientPair(row.input_mint, row.output_mint);
+    const openTime = bucketStart(row.block_time, '1m');
+    const markets: [MarketType, string][] = [['pair', pairMarket(baseMint, quoteMint)]];
+    if (row.pool) {
+      markets.push(['pool', row.pool]);
+    }
+    for (const [marketType, market] of markets) {
+      candles.set(`${marketType}:${market}:${openTime}`, {
+        marketType,
+        market,
+        baseMint,
+        quoteMint,
+        openTime,
+      });
+    }
+  }
+}
+
+// 按 swaps 表的当前内容重建受影响的 K 线：1m 由 swap 聚合，更大的周期由 1m K 线合并。
+// 重复处理、补齐和撤回区块后都按最新数据重新计算，不依赖增量累加
+function rebuildCandles(db: Database.Database, candles: Map<string, CandleKey>) {
+  for (const key of candles.values()) {
+    rebuildMinuteCandle(db, key);
+  }
+
+  for (const interval of Object.keys(CANDLE_INTERVALS) as CandleInterval[]) {
+    if (interval === '1m') continue;
+
+    const derived = new Map<string, CandleKey>();
+    for (const key of candles.values()) {
+      const openTime = bucketStart(key.openTime, interval);
+      derived.set(`${key.marketType}:${key.market}:${openTime}`, { ...key, openTime });
+    }
+    for (const key of derived.values()) {
+      rebuildDerivedCandle(db, key, interval);
+    }
+  }
+}
+
+// 同一区块内的交易顺序没有保存，按签名排序作为近似
+function rebuildMinuteCandle(db: Database.Database, key: CandleKey) {
+  const conditions = [
+    '((input_mint = ? AND output_mint = ?) OR (input_mint = ? AND output_mint = ?))',
+    'block_time >= ?',
+    'block_time < ?',
+    'input_amount IS NOT NULL',
+    'output_amount IS NOT NULL',
+  ];
+  const params: string[] = [
+    key.baseMint,
+    key.quoteMint,
+    key.quoteMint,
+    key.baseMint,
+    key.openTime,
+    bucketEnd(key.openTime, '1m'),
+  ];
+  if (key.marketType === 'pool') {
+    conditions.push('pool = ?');
+    params.push(key.market);
+  }
+
+  const rows = db
+    .prepare(
+      `SELECT * FROM swaps WHERE ${conditions.join(' AND ')}
+      ORDER BY slot, signature, outer_index, inner_index`
+    )
+    .all(...params) as SwapRow[];
+
+  if (rows.length === 0) {
+    return deleteCandle(db, key, '1m');
+  }
+
+  const trades = rows.map(row =>
+    row.input_mint === key.baseMint
+      ? { baseAmount: BigInt(row.input_amount!), quoteAmount: BigInt(row.output_amount!) }
+      : { baseAmount: BigInt(row.output_amount!), quoteAmount: BigInt(row.input_amount!) }
+  );
+  const baseIsInput = rows[0].input_mint === key.baseMint;
+  const baseDecimals = baseIsInput ? rows[0].input_decimals : rows[0].output_decimals;
+  const quoteDecimals = baseIsInput ? rows[0].output_decimals : rows[0].input_decimals;
+  const values = aggregateTrades(trades, baseDecimals, quoteDecimals);
+  if (!values) {
+    return deleteCandle(db, key, '1m');
+  }
+  writeCandle(db, key, '1m', values, baseDecimals, quoteDecimals);
+}
+
+function rebuildDerivedCandle(db: Database.Database, key: CandleKey, interval: CandleInterval) {
+  const rows = db
+    .prepare(
+      `SELECT * FROM candles
+      WHERE market_type = ? AND market = ? AND interval = '1m' AND open_time >= ? AND open_time < ?
+      ORDER BY open_time`
+    )
+    .all(key.marketType, key.market, key.openTime, bucketEnd(key.openTime, interval)) as CandleRow[];
+
+  const values = rows.length > 0
+    ? mergeCandles(rows.map(toCandle), rows[0].base_decimals, rows[0].quote_decimals)
+    : null;
+  if (!values) {
+    return deleteCandle(db, key, interval);
+  }
+  writeCandle(db, key, interval, values, rows[0].base_decimals, rows[0].quote_decimals);
+}
+
+// 周期内已经没有成交（例如区块被撤回）
+function deleteCandle(db: Database.Database, key: CandleKey, interval: CandleInterval) {
+  db.prepare(
+    'DELETE FROM candles WHERE market_type = ? AND market = ? AND interval = ? AND open_time = ?'
+  ).run(key.marketType, key.market, interval, key.openTime);
+}
+
+function writeCandle(
+  db: Database.Database,
+  key: CandleKey,
+  interval: CandleInterval,
+  values: CandleValues,
+  baseDecimals: number,
+  quoteDecimals: number
+) {
+  db.prepare(
+    `INSERT OR REPLACE INTO candles
+      (market_type, market, interval, open_time, base_mint, quote_mint, base_decimals,
+       quote_decimals, open, high, low, close, base_volume, base_ui_volume, quote_volume,
+       quote_ui_volume, trades)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    key.marketType,
+    key.market,
+    interval,
+    key.openTime,
+    key.baseMint,
+    key.quoteMint,
+    baseDecimals,
+    quoteDecimals,
+    values.open,
+    values.high,
+    values.low,
+    values.close,
+    values.baseVolume,
+    values.baseUiVolume,
+    values.quoteVolume,
+    values.quoteUiVolume,
+    values.trades
+  );
+}
+
+interface PositionKey {
+  wallet: string;
+  baseMint: string;
+  quoteMint: string;
+}
+
+interface PositionSource {
+  wallet: string;
+  base_mint: string | null;
+  quote_mint: string | null;
+}
+
+interface PositionTrade {
+  slot: number;
+  signature: string;
+  seq: number;
+  baseDecimals: number;
+  quoteDecimals: number;
+  baseChange: bigint;
+  quoteChange: bigint;
+}
+
+// 一次写入影响的持仓：新成交在已保存的持仓上继续累计；
+// 已有成交被替换或撤回时需要按 wallet_activity 从头重建
+interface PositionUpdate extends PositionKey {
+  trades: PositionTrade[];
+  rebuild: boolean;
+}
+
+interface PositionRow {
+  amount: string;
+  cost: string;
+  realized_pnl: string;
+  buys: number;
+  sells: number;
+  untracked_sold: string;
+  last_slot: number;
+}
+
+function positionUpdate(
+  positions: Map<string, PositionUpdate>,
+  wallet: string,
+  baseMint: string,
+  quoteMint: string
+): PositionUpdate {
+  const id = `${wallet}:${baseMint}:${quoteMint}`;
+  let update = positions.get(id);
+  if (!update) {
+    update = { wallet, baseMint, quoteMint, trades: [], rebuild: false };
+    positions.set(id, update);
+  }
+  return update;
+}
+
+// 被删除的成交所在的持仓
+function collectPositions(rows: PositionSource[], positions: Map<string, PositionUpdate>) {
+  for (const row of rows) {
+    if (!row.base_mint || !row.quote_mint) continue;
+    positionUpdate(positions, row.wallet, row.base_mint, row.quote_mint).rebuild = true;
+  }
+}
+
+// 新成交都在已保存持仓的最后一个区块之后时，从保存的持仓继续累计；
+// 否则（替换、撤回或乱序写入）从头重建
+function updatePositions(db: Database.Database, positions: Map<string, PositionUpdate>) {
+  for (const update of positions.values()) {
+    const stored = db
+      .prepare(
+        `SELECT amount, cost, realized_pnl, buys, sells, untracked_sold, last_slot
+        FROM wallet_positions WHERE wallet = ? AND base_mint = ? AND quote_mint = ?`
+      )
+      .get(update.wallet, update.baseMint, update.quoteMint) as PositionRow | undefined;
+
+    if (update.rebuild || (stored && update.trades.some(trade => trade.slot <= stored.last_slot))) {
+      rebuildPosition(db, update);
+      continue;
+    }
+    if (update.trades.length === 0) continue;
+
+    // 与重建时的顺序（slot, signature, seq）一致
+    const trades = [...update.trades].sort((a, b) => {
+      if (a.slot !== b.slot) return a.slot - b.slot;
+      if (a.signature !== b.signature) return a.signature < b.signature ? -1 : 1;
+      return a.seq - b.seq;
+    });
+    const position = accumulatePosition(trades, stored && {
+      amount: BigInt(stored.amount),
+      cost: BigInt(stored.cost),
+      realizedPnl: BigInt(stored.realized_pnl),
+      buys: stored.buys,
+      sells: stored.sells,
+      untrackedSold: BigInt(stored.untracked_sold),
+    });
+    const last = trades[trades.length - 1];
+    savePosition(db, update, last.baseDecimals, last.quoteDecimals, position, last.slot);
+  }
+}
+
+// 与 K 线相同，按 wallet_activity 的当前内容从头重新累计持仓；
+// 同一区块内的交易顺序没有保存，按签名排序作为近似
+function rebuildPosition(db: Database.Database, key: PositionKey) {
+  const rows = db
+    .prepare(
+      `SELECT slot, base_decimals, quote_decimals, base_change, quote_change FROM wallet_activity
+      WHERE wallet = ? AND base_mint = ? AND quote_mint = ?
+      ORDER BY slot, signature, seq`
+    )
+    .all(key.wallet, key.baseMint, key.quoteMint) as {
+      slot: number;
+      base_decimals: number;
+      quote_decimals: number;
+      base_change: string;
+      quote_change: string;
+    }[];
+
+  if (rows.length === 0) {
+    db.prepare(
+      'DELETE FROM wallet_positions WHERE wallet = ? AND base_mint = ? AND quote_mint = ?'
+    ).run(key.wallet, key.baseMint, key.quoteMint);
+    return;
+  }
+
+  const position = accumulatePosition(
+    rows.map(row => ({
+      baseChange: BigInt(row.base_change),
+      quoteChange: BigInt(row.quote_change),
+    }))
+  );
+  const last = rows[rows.length - 1];
+  savePosition(db, key, last.base_decimals, last.quote_decimals, position, last.slot);
+}
+
+function savePosition(
+  db: Database.Database,
+  key: PositionKey,
+  baseDecimals: number,
+  quoteDecimals: number,
+  position: PositionValues,
+  lastSlot: number
+) {
+  db.prepare(
+    `INSERT OR REPLACE INTO wallet_positions
+      (wallet, base_mint, quote_mint, base_decimals, quote_decimals, amount, cost, realized_pnl,
+       buys, sells, untracked_sold, last_slot)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+  ).run(
+    key.wallet,
+    key.baseMint,
+    key.quoteMint,
+    baseDecimals,
+    quoteDecimals,
+    position.amount.toString(),
+    position.cost.toString(),
+    position.realizedPnl.toString(),
+    position.buys,
+    position.sells,
+    position.untrackedSold.toString(),
+    lastSlot
+  );
+}
+
+function fromJson(value: string | null): unknown {
+  return value === null ? undefined : JSON.parse(value);
+}
+
+function toJson(value: unknown): string | null {
+  return value === undefined ? null : JSON.stringify(value);
+}
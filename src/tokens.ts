@@ -0,0 +1,283 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AccountInfo, PublicKey } from '@solana/web3.js';
+import bundledRegistry from './token-registry.json';
+import { IndexedTransaction } from './storage';
+
+export type Cluster = 'mainnet-beta' | 'devnet' | 'testnet';
+
+export interface TokenMetadata {
+  symbol?: string;
+  name?: string;
+  decimals?: number;
+  // registry：本地登记表；metaplex / token-2022：链上元数据；mint：只有 mint 账户，没有元数据
+  source: 'registry' | 'metaplex' | 'token-2022' | 'mint';
+}
+
+// 登记表格式：{ "<cluster>": { "<mint>": { "symbol": "", "name": "", "decimals": 0 } } }
+type Registry = {
+  [cluster: string]: { [mint: string]: Omit<TokenMetadata, 'source'> } | undefined;
+};
+
+export interface TokenMetadataOptions {
+  cluster: Cluster;
+  // 额外的登记表文件，覆盖内置条目
+  registryFile?: string;
+  // 链上查询结果的持久化缓存
+  cacheFile: string;
+  // 批量读取账户；不提供时不查询链上元数据（例如回放模式）
+  fetchAccounts?: (keys: PublicKey[]) => Promise<(AccountInfo<Buffer> | null)[]>;
+}
+
+const METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+// getMultipleAccountsInfo 单次最多 100 个账户，每个 mint 需要读取 mint 和 Metaplex 元数据两个账户
+const LOOKUP_BATCH_SIZE = 50;
+// 查询结果合并后写入缓存文件，不在区块处理过程中同步写文件
+const CACHE_SAVE_DELAY_MS = 5000;
+
+// 按集群解析 mint 的符号、名称和精度：本地登记表 → 持久化缓存 → 链上元数据
+export class TokenMetadataResolver {
+  private cluster: Cluster;
+  private registry: Map<string, TokenMetadata>;
+  private cache = new Map<string, TokenMetadata>();
+  private cacheFile: string;
+  private fetchAccounts?: TokenMetadataOptions['fetchAccounts'];
+  // 本次运行中已经查询过但没有结果的 mint，不再重复查询
+  private missing = new Set<string>();
+  // 缓存中有尚未写入文件的查询结果
+  private dirty = false;
+  private saveTimer?: NodeJS.Timeout;
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(options: TokenMetadataOptions) {
+    this.cluster = options.cluster;
+    this.cacheFile = options.cacheFile;
+    this.fetchAccounts = options.fetchAccounts;
+
+    this.registry = new Map();
+    this.loadRegistry(bundledRegistry as Registry);
+    if (options.registryFile) {
+      this.loadRegistry(JSON.parse(fs.readFileSync(options.registryFile, 'utf8')) as Registry);
+    }
+    this.loadCache();
+  }
+
+  get(mint: string): TokenMetadata | undefined {
+    return this.registry.get(mint) || this.cache.get(mint);
+  }
+
+  // 显示用的代币名称：有符号时用符号，否则为 mint 地址
+  label(mint: string): string {
+    return this.get(mint)?.symbol || mint;
+  }
+
+  // 查询尚未解析的 mint；链上查询失败不影响索引
+  async resolve(mints: string[]): Promise<void> {
+    if (!this.fetchAccounts) {
+      return;
+    }
+
+    const pending = Array.from(new Set(mints)).filter(mint => !this.get(mint) && !this.missing.has(mint));
+    if (pending.length === 0) {
+      return;
+    }
+
+    try {
+      for (let i = 0; i < pending.length; i += LOOKUP_BATCH_SIZE) {
+        await this.lookup(pending.slice(i, i + LOOKUP_BATCH_SIZE));
+      }
+    } catch (error) {
+      console.error('查询代币元数据失败:', error instanceof Error ? error.message : String(error));
+    } finally {
+      if (this.dirty) {
+        this.scheduleSave();
+      }
+    }
+  }
+
+  // 写出尚未保存的缓存，退出前调用
+  async close(): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    await this.save();
+  }
+
+  // 给 swap 和余额变化记录补充符号和名称
+  annotate(record: IndexedTransaction) {
+    for (const swap of record.swaps) {
+      const input = this.get(swap.inputMint);
+      const output = this.get(swap.outputMint);
+      swap.inputSymbol = input?.symbol;
+      swap.inputName = input?.name;
+      swap.outputSymbol = output?.symbol;
+      swap.outputName = output?.name;
+    }
+    for (const change of record.balanceChanges) {
+      const metadata = this.get(change.mint);
+      change.symbol = metadata?.symbol;
+      change.name = metadata?.name;
+    }
+  }
+
+  private async lookup(mints: string[]) {
+    const mintKeys = mints.map(mint => new PublicKey(mint));
+    const metadataKeys = mintKeys.map(mint => PublicKey.findProgramAddressSync(
+      [Buffer.from('metadata'), METADATA_PROGRAM_ID.toBuffer(), mint.toBuffer()],
+      METADATA_PROGRAM_ID
+    )[0]);
+
+    const accounts = await this.fetchAccounts!([...mintKeys, ...metadataKeys]);
+
+    mints.forEach((mint, index) => {
+      const mintAccount = accounts[index];
+      const metadataAccount = accounts[mints.length + index];
+      if (!mintAccount) {
+        this.missing.add(mint);
+        return;
+      }
+
+      const decimals = mintAccount.data.length > 44 ? mintAccount.data[44] : undefined;
+      const token2022 = mintAccount.owner.equals(TOKEN_2022_PROGRAM_ID)
+        ? parseToken2022Metadata(mintAccount.data)
+        : null;
+      const metaplex = metadataAccount && metadataAccount.owner.equals(METADATA_PROGRAM_ID)
+        ? parseMetaplexMetadata(metadataAccount.data)
+        : null;
+
+      const found = token2022 || metaplex;
+      this.dirty = true;
+      this.cache.set(mint, {
+        symbol: found?.symbol || undefined,
+        name: found?.name || undefined,
+        decimals,
+        source: token2022 ? 'token-2022' : metaplex ? 'metaplex' : 'mint',
+      });
+    });
+  }
+
+  private loadRegistry(registry: Registry) {
+    const entries = registry[this.cluster] || {};
+    for (const [mint, metadata] of Object.entries(entries)) {
+      this.registry.set(mint, { ...metadata, source: 'registry' });
+    }
+  }
+
+  private loadCache() {
+    if (!fs.existsSync(this.cacheFile)) {
+      return;
+    }
+    const cache = JSON.parse(fs.readFileSync(this.cacheFile, 'utf8')) as {
+      [cluster: string]: { [mint: string]: TokenMetadata } | undefined;
+    };
+    for (const [mint, metadata] of Object.entries(cache[this.cluster] || {})) {
+      this.cache.set(mint, metadata);
+    }
+  }
+
+  private scheduleSave() {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save().catch(error => {
+        console.error('写入代币元数据缓存失败:', error instanceof Error ? error.message : String(error));
+      });
+    }, CACHE_SAVE_DELAY_MS);
+    this.saveTimer.unref();
+  }
+
+  // 依次写入，避免两次保存同时写同一个临时文件
+  private save(): Promise<void> {
+    this.saving = this.saving.catch(() => undefined).then(() => this.saveCache());
+    return this.saving;
+  }
+
+  // 与检查点相同，先写临时文件再 rename；保留其他集群的缓存
+  private async saveCache() {
+    if (!this.dirty) {
+      return;
+    }
+    this.dirty = false;
+
+    try {
+      await fs.promises.mkdir(path.dirname(this.cacheFile), { recursive: true });
+      const cache = await fs.promises.readFile(this.cacheFile, 'utf8').then(
+        content => JSON.parse(content),
+        () => ({})
+      );
+      cache[this.cluster] = Object.fromEntries(this.cache);
+
+      const tmpPath = `${this.cacheFile}.tmp`;
+      await fs.promises.writeFile(tmpPath, JSON.stringify(cache, null, 2));
+      await fs.promises.rename(tmpPath, this.cacheFile);
+    } catch (error) {
+      // 下次保存时重试
+      this.dirty = true;
+      throw error;
+    }
+  }
+}
+
+// 根据 RPC 地址推断集群，无法判断时视为主网
+export function inferCluster(rpcUrl: string): Cluster {
+  if (rpcUrl.includes('devnet')) {
+    return 'devnet';
+  }
+  if (rpcUrl.includes('testnet')) {
+    return 'testnet';
+  }
+  return 'mainnet-beta';
+}
+
+// Metaplex Metadata 账户：key(1) + update_authority(32) + mint(32) + name + symbol + uri
+function parseMetaplexMetadata(data: Buffer): { name: string; symbol: string } | null {
+  try {
+    let offset = 1 + 32 + 32;
+    const name = readString(data, offset);
+    offset = name.next;
+    const symbol = readString(data, offset);
+    return { name: name.value, symbol: symbol.value };
+  } catch (error) {
+    return null;
+  }
+}
+
+// Token-2022 mint 扩展：基础 mint(82) 填充到 165 字节，之后是 account_type(1)，再之后为 TLV 扩展
+// TokenMetadata 扩展（类型 19）：update_authority(32) + mint(32) + name + symbol + uri
+function parseToken2022Metadata(data: Buffer): { name: string; symbol: string } | null {
+  const TOKEN_METADATA_EXTENSION = 19;
+  let offset = 166;
+  try {
+    while (offset + 4 <= data.length) {
+      const type = data.readUInt16LE(offset);
+      const length = data.readUInt16LE(offset + 2);
+      const start = offset + 4;
+      if (type === TOKEN_METADATA_EXTENSION) {
+        const name = readString(data, start + 64);
+        const symbol = readString(data, name.next);
+        return { name: name.value, symbol: symbol.value };
+      }
+      offset = start + length;
+    }
+  } catch (error) {
+    return null;
+  }
+  return null;
+}
+
+// Borsh 字符串：u32 长度 + UTF-8；Metaplex 的定长字段用 \0 填充
+function readString(data: Buffer, offset: number): { value: string; next: number } {
+  const length = data.readUInt32LE(offset);
+  const start = offset + 4;
+  if (start + length > data.length) {
+    throw new RangeError('string out of bounds');
+  }
+  return {
+    value: data.slice(start, start + length).toString('utf8').replace(/\0/g, '').trim(),
+    next: start + length,
+  };
+}
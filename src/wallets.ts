@@ -0,0 +1,231 @@
+import { calculatePrice, formatUnits, PRICE_DECIMALS } from './amounts';
+import { orientPair } from './candles';
+import { IndexedTransaction } from './storage';
+
+export interface Watchlist {
+  name: string;
+  wallets: string[];
+}
+
+// swap：钱包作为交易者的 swap；liquidity：钱包作为所有者的流动性事件；
+// transfer：钱包在交易中没有 swap 和流动性事件时，其代币账户的余额变化（包括不涉及监听程序的普通转账）
+export type WalletActivityType = 'swap' | 'liquidity' | 'transfer';
+
+// 钱包持有代币的变化，正数为转入，负数为转出
+export interface WalletTokenChange {
+  mint: string;
+  // 最小单位的整数字符串
+  change: string;
+  uiChange: string;
+  decimals: number;
+}
+
+export interface WalletActivityRecord {
+  wallet: string;
+  // 钱包所在的监听列表
+  watchlists: string[];
+  type: WalletActivityType;
+  // swap 为 swap，流动性事件为事件类型（addLiquidity 等），transfer 为 in 或 out
+  action: string;
+  outerIndex?: number;
+  innerIndex?: number;
+  protocol?: string;
+  pool?: string;
+  changes: WalletTokenChange[];
+  // 仅 swap：按 K 线的交易对方向整理后的 base / quote 变化，用于持仓和已实现盈亏
+  trade?: WalletTrade;
+}
+
+export interface WalletTrade {
+  baseMint: string;
+  quoteMint: string;
+  baseDecimals: number;
+  quoteDecimals: number;
+  // 最小单位的整数字符串，正数为买入 base，负数为卖出 base
+  baseChange: string;
+  quoteChange: string;
+}
+
+// 单个钱包在一个交易对上的持仓，按平均成本法计算
+export interface PositionValues {
+  // 当前持有的 base 数量及其成本（quote），最小单位
+  amount: bigint;
+  cost: bigint;
+  // 已实现盈亏（quote），最小单位
+  realizedPnl: bigint;
+  buys: number;
+  sells: number;
+  // 卖出数量超过已记录持仓的部分（例如开始监听前买入或转入的代币），不计入已实现盈亏
+  untrackedSold: bigint;
+}
+
+const DEPOSIT_EVENTS: string[] = [
+  'createPool',
+  'addLiquidity',
+  'openPosition',
+  'increaseLiquidity',
+];
+
+// 按钱包整理交易中的活动，只包含监听列表中的钱包
+export class WalletWatchlists {
+  private lists = new Map<string, string[]>();
+
+  constructor(watchlists: Watchlist[]) {
+    for (const watchlist of watchlists) {
+      for (const wallet of watchlist.wallets) {
+        this.lists.set(wallet, [...(this.lists.get(wallet) || []), watchlist.name]);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.lists.size;
+  }
+
+  // 监听的全部钱包地址，解析交易时用于保留只有代币转账的交易
+  wallets(): Set<string> {
+    return new Set(this.lists.keys());
+  }
+
+  // 结果写入 record.walletActivity，随交易一起保存
+  annotate(record: IndexedTransaction) {
+    if (this.lists.size > 0) {
+      record.walletActivity = collectWalletActivity(record, this.lists);
+    }
+  }
+}
+
+export function collectWalletActivity(
+  record: IndexedTransaction,
+  lists: Map<string, string[]>
+): WalletActivityRecord[] {
+  const activity: WalletActivityRecord[] = [];
+  const active = new Set<string>();
+
+  for (const swap of record.swaps) {
+    const watchlists = lists.get(swap.trader);
+    if (!watchlists) continue;
+    active.add(swap.trader);
+
+    const input = BigInt(swap.inputAmount);
+    const output = BigInt(swap.outputAmount);
+    const { baseMint, quoteMint } = orientPair(swap.inputMint, swap.outputMint);
+    const buy = swap.outputMint === baseMint;
+    activity.push({
+      wallet: swap.trader,
+      watchlists,
+      type: 'swap',
+      action: 'swap',
+      outerIndex: swap.outerIndex,
+      innerIndex: swap.innerIndex,
+      protocol: swap.protocol,
+      pool: swap.pool,
+      changes: [
+        tokenChange(swap.inputMint, -input, swap.inputDecimals),
+        tokenChange(swap.outputMint, output, swap.outputDecimals),
+      ],
+      trade: {
+        baseMint,
+        quoteMint,
+        baseDecimals: buy ? swap.outputDecimals : swap.inputDecimals,
+        quoteDecimals: buy ? swap.inputDecimals : swap.outputDecimals,
+        baseChange: (buy ? output : -input).toString(),
+        quoteChange: (buy ? -input : output).toString(),
+      },
+    });
+  }
+
+  for (const event of record.liquidityEvents) {
+    const watchlists = lists.get(event.owner);
+    if (!watchlists) continue;
+    active.add(event.owner);
+
+    // 创建池子、添加流动性和开仓为存入，其余为取出
+    const deposit = DEPOSIT_EVENTS.includes(event.type);
+    const changes: WalletTokenChange[] = [];
+    for (const [mint, amount, decimals] of [
+      [event.token0Mint, event.token0Amount, event.token0Decimals],
+      [event.token1Mint, event.token1Amount, event.token1Decimals],
+    ] as const) {
+      if (mint && amount !== undefined && decimals !== undefined) {
+        changes.push(tokenChange(mint, deposit ? -BigInt(amount) : BigInt(amount), decimals));
+      }
+    }
+    activity.push({
+      wallet: event.owner,
+      watchlists,
+      type: 'liquidity',
+      action: event.type,
+      outerIndex: event.outerIndex,
+      innerIndex: event.innerIndex,
+      protocol: event.protocol,
+      pool: event.pool,
+      changes,
+    });
+  }
+
+  for (const change of record.balanceChanges) {
+    const watchlists = lists.get(change.owner);
+    if (!watchlists || active.has(change.owner) || BigInt(change.change) === 0n) continue;
+    activity.push({
+      wallet: change.owner,
+      watchlists,
+      type: 'transfer',
+      action: BigInt(change.change) > 0n ? 'in' : 'out',
+      changes: [tokenChange(change.mint, BigInt(change.change), change.decimals)],
+    });
+  }
+
+  return activity;
+}
+
+// 按时间顺序累计一个钱包在一个交易对上的成交，卖出时按平均成本结转已实现盈亏；
+// 传入 initial 时在已有持仓上继续累计
+export function accumulatePosition(
+  trades: { baseChange: bigint; quoteChange: bigint }[],
+  initial?: PositionValues
+): PositionValues {
+  const position: PositionValues = initial ? { ...initial } : {
+    amount: 0n,
+    cost: 0n,
+    realizedPnl: 0n,
+    buys: 0,
+    sells: 0,
+    untrackedSold: 0n,
+  };
+
+  for (const { baseChange, quoteChange } of trades) {
+    if (baseChange > 0n) {
+      position.buys += 1;
+      position.amount += baseChange;
+      position.cost += -quoteChange;
+      continue;
+    }
+    if (baseChange === 0n) continue;
+
+    position.sells += 1;
+    const sold = -baseChange;
+    const covered = sold < position.amount ? sold : position.amount;
+    position.untrackedSold += sold - covered;
+    if (covered === 0n) continue;
+
+    // 只有已记录持仓覆盖的部分计入盈亏，收入按数量比例分摊
+    const costOut = (position.cost * covered) / position.amount;
+    const proceeds = (quoteChange * covered) / sold;
+    position.realizedPnl += proceeds - costOut;
+    position.amount -= covered;
+    position.cost -= costOut;
+  }
+
+  return position;
+}
+
+// 平均成本：每 1 个 base 代币的成本（quote），没有持仓时为 null
+export function averageCost(position: PositionValues, baseDecimals: number, quoteDecimals: number) {
+  const price = calculatePrice(position.amount, baseDecimals, position.cost, quoteDecimals);
+  return price === null ? null : formatUnits(price, PRICE_DECIMALS);
+}
+
+function tokenChange(mint: string, change: bigint, decimals: number): WalletTokenChange {
+  return { mint, change: change.toString(), uiChange: formatUnits(change, decimals), decimals };
+}
@@ -0,0 +1,272 @@
+import * as crypto from 'crypto';
+import axios from 'axios';
+import { EventBus, EventFilter, IndexerEvent, isIndexerEventType, matchesFilter } from './events';
+import { settleWithin } from './shutdown';
+import { SqliteStorage } from './storage';
+
+export interface WebhookConfig {
+  url: string;
+  // 设置后请求带 X-Indexer-Signature 签名头
+  secret?: string;
+  filter: EventFilter;
+}
+
+export interface WebhookOptions {
+  // 包括第一次在内的最大尝试次数，全部失败后写入死信表
+  maxAttempts: number;
+  baseRetryDelay: number;
+  maxRetryDelay: number;
+  timeout: number;
+  // 单个 webhook 等待发送的批次上限，超出时直接写入死信表，避免接收端长时间不可用时占满内存
+  maxQueueSize: number;
+}
+
+export interface WebhookPayload {
+  deliveryId: string;
+  events: IndexerEvent[];
+}
+
+interface Delivery {
+  payload: WebhookPayload;
+  attempts: number;
+}
+
+interface WebhookState {
+  config: WebhookConfig;
+  queue: Delivery[];
+  sending: boolean;
+  // 正在发送队列时为发送循环的 promise，关闭时等待其完成
+  draining?: Promise<void>;
+}
+
+const DEFAULT_OPTIONS: WebhookOptions = {
+  maxAttempts: 6,
+  baseRetryDelay: 1000,
+  maxRetryDelay: 60000,
+  timeout: 10000,
+  maxQueueSize: 1000,
+};
+
+// 每个区块的事件按 webhook 的过滤条件筛选后作为一个批次 POST 给接收端。
+// 同一 webhook 的批次按区块处理顺序依次发送，失败时指数退避重试，
+// 达到最大次数后写入 webhook_dead_letters 表，不再阻塞后续批次
+export class WebhookDispatcher {
+  private webhooks: WebhookState[];
+  private options: WebhookOptions;
+  private unsubscribe?: () => void;
+  private sequence = 0;
+  // flush 超时后放弃剩余批次，正在进行的发送不再重试
+  private closed = false;
+
+  constructor(
+    configs: WebhookConfig[],
+    private storage: SqliteStorage,
+    options: Partial<WebhookOptions> = {}
+  ) {
+    this.webhooks = configs.map(config => ({ config, queue: [], sending: false }));
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(events: EventBus) {
+    if (this.webhooks.length === 0) {
+      return;
+    }
+    console.log('webhook 推送地址:', this.webhooks.map(webhook => webhook.config.url));
+    this.unsubscribe = events.subscribe(batch => this.dispatch(batch));
+  }
+
+  stop() {
+    this.unsubscribe?.();
+  }
+
+  // 关闭时调用：不再接收新的事件，等待队列中的批次发送完成，最多 timeoutMs；
+  // 超时后剩余批次写入死信表，返回是否全部送达或已按重试次数处理
+  async flush(timeoutMs: number): Promise<boolean> {
+    this.stop();
+    const pending = this.webhooks.filter(webhook => webhook.draining);
+    if (pending.length === 0) {
+      return true;
+    }
+    console.log(`等待 ${this.getPendingDeliveries()} 个 webhook 批次发送完成...`);
+    const flushed = await settleWithin(
+      Promise.all(pending.map(webhook => webhook.draining)),
+      timeoutMs
+    );
+    if (!flushed) {
+      this.closed = true;
+      for (const webhook of this.webhooks) {
+        webhook.queue.splice(0).forEach(delivery => this.deadLetter(webhook, delivery, 'shutdown'));
+      }
+    }
+    return flushed;
+  }
+
+  // 等待发送的批次数（包括正在发送的批次）
+  getPendingDeliveries(): number {
+    return this.webhooks.reduce((total, webhook) => total + webhook.queue.length, 0);
+  }
+
+  dispatch(events: IndexerEvent[]) {
+    for (const webhook of this.webhooks) {
+      const matched = events.filter(event => matchesFilter(event, webhook.config.filter));
+      if (matched.length === 0) continue;
+
+      const delivery: Delivery = {
+        payload: { deliveryId: `${Date.now()}-${++this.sequence}`, events: matched },
+        attempts: 0,
+      };
+      if (webhook.queue.length >= this.options.maxQueueSize) {
+        this.deadLetter(webhook, delivery, 'queue full');
+        continue;
+      }
+      webhook.queue.push(delivery);
+      this.drain(webhook);
+    }
+  }
+
+  private drain(webhook: WebhookState) {
+    if (webhook.sending) {
+      return;
+    }
+    webhook.sending = true;
+    webhook.draining = (async () => {
+      try {
+        while (webhook.queue.length > 0 && !this.closed) {
+          await this.deliver(webhook, webhook.queue[0]);
+          webhook.queue.shift();
+        }
+      } finally {
+        webhook.sending = false;
+        webhook.draining = undefined;
+      }
+    })();
+  }
+
+  private async deliver(webhook: WebhookState, delivery: Delivery) {
+    const body = JSON.stringify(delivery.payload);
+    for (;;) {
+      delivery.attempts += 1;
+      try {
+        await axios.post(webhook.config.url, body, {
+          headers: signatureHeaders(body, webhook.config.secret, delivery.payload.deliveryId),
+          timeout: this.options.timeout,
+          // 只把 2xx 视为送达
+          validateStatus: status => status >= 200 && status < 300,
+        });
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        // 已经关闭时该批次已由 flush 写入死信表
+        if (this.closed) {
+          return;
+        }
+        if (delivery.attempts >= this.options.maxAttempts) {
+          this.deadLetter(webhook, delivery, message);
+          return;
+        }
+        const delay = Math.min(
+          this.options.baseRetryDelay * 2 ** (delivery.attempts - 1),
+          this.options.maxRetryDelay
+        );
+        console.error(
+          `webhook 推送失败 (${webhook.config.url}，第 ${delivery.attempts} 次)，${delay}ms 后重试:`,
+          message
+        );
+        await new Promise(resolve => setTimeout(resolve, delay));
+        if (this.closed) {
+          return;
+        }
+      }
+    }
+  }
+
+  private deadLetter(webhook: WebhookState, delivery: Delivery, error: string) {
+    console.error(`webhook 推送放弃 (${webhook.config.url})，已写入死信表:`, error);
+    try {
+      this.storage.saveWebhookDeadLetter({
+        url: webhook.config.url,
+        deliveryId: delivery.payload.deliveryId,
+        payload: JSON.stringify(delivery.payload),
+        attempts: delivery.attempts,
+        error,
+      });
+    } catch (storageError) {
+      console.error(
+        '写入 webhook 死信失败:',
+        storageError instanceof Error ? storageError.message : String(storageError)
+      );
+    }
+  }
+}
+
+// 签名为 HMAC-SHA256(secret, `${timestamp}.${body}`) 的十六进制，接收端应同时校验时间戳防止重放
+export function signatureHeaders(
+  body: string,
+  secret: string | undefined,
+  deliveryId: string,
+  timestamp = Math.floor(Date.now() / 1000)
+): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'X-Indexer-Delivery': deliveryId,
+    'X-Indexer-Timestamp': String(timestamp),
+  };
+  if (secret) {
+    const signature = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+    headers['X-Indexer-Signature'] = `sha256=${signature}`;
+  }
+  return headers;
+}
+
+// 配置为 JSON 数组：[{ "url", "secret", "types", "mints", "pools", "wallets" }]，
+// 过滤字段均为可选的字符串数组；secret 可写为 "env:变量名" 从环境变量读取
+export function parseWebhookConfigs(entries: unknown, source: string): WebhookConfig[] {
+  if (!Array.isArray(entries)) {
+    throw new Error(`webhook 配置 ${source} 必须是数组`);
+  }
+
+  return entries.map((item: unknown, index) => {
+    const entry = typeof item === 'object' && item !== null ? (item as Record<string, unknown>) : {};
+    if (typeof entry.url !== 'string' || !/^https?:\/\//.test(entry.url)) {
+      throw new Error(`webhook 配置第 ${index + 1} 项缺少有效的 url`);
+    }
+    const types = stringList(entry.types, `第 ${index + 1} 项 types`);
+    const invalidType = types?.find(type => !isIndexerEventType(type));
+    if (invalidType) {
+      throw new Error(`webhook 配置第 ${index + 1} 项的事件类型 ${invalidType} 不支持`);
+    }
+
+    if (entry.secret !== undefined && typeof entry.secret !== 'string') {
+      throw new Error(`webhook 配置第 ${index + 1} 项的 secret 必须是字符串`);
+    }
+    let secret = entry.secret;
+    if (secret?.startsWith('env:')) {
+      const name = secret.slice(4);
+      secret = process.env[name];
+      if (!secret) {
+        throw new Error(`webhook 配置第 ${index + 1} 项的 secret 环境变量 ${name} 未设置`);
+      }
+    }
+
+    return {
+      url: entry.url,
+      secret,
+      filter: {
+        types: types as EventFilter['types'],
+        mints: stringList(entry.mints, `第 ${index + 1} 项 mints`),
+        pools: stringList(entry.pools, `第 ${index + 1} 项 pools`),
+        wallets: stringList(entry.wallets, `第 ${index + 1} 项 wallets`),
+      },
+    };
+  });
+}
+
+function stringList(value: unknown, name: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`webhook 配置${name} 必须是字符串数组`);
+  }
+  return value;
+}
@@ -0,0 +1,19 @@
+import { formatUnits } from '../src/amounts';
+
+describe('formatUnits', () => {
+  test('keeps every digit of amounts above 2^53', () => {
+    expect(formatUnits('18446744073709551615', 9)).toBe('18446744073.709551615');
+    expect(formatUnits(789570864000000n, 6)).toBe('789570864');
+  });
+
+  test('does not round small amounts to zero', () => {
+    expect(formatUnits('1', 9)).toBe('0.000000001');
+    expect(formatUnits('50', 6)).toBe('0.00005');
+  });
+
+  test('handles negative changes and zero decimals', () => {
+    expect(formatUnits(-1500000000n, 9)).toBe('-1.5');
+    expect(formatUnits('42', 0)).toBe('42');
+    expect(formatUnits('0', 6)).toBe('0');
+  });
+});
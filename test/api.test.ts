@@ -0,0 +1,41 @@
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { ApiServer, HealthStatus, IndexerStatus } from '../src/api';
+import { EventBus } from '../src/events';
+import { MetricsRegistry } from '../src/metrics';
+import { SqliteStorage } from '../src/storage';
+
+describe('ApiServer', () => {
+  let dir: string;
+  let storage: SqliteStorage;
+  let occupied: http.Server;
+
+  beforeEach(async () => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'api-'));
+    storage = new SqliteStorage(path.join(dir, 'indexer.db'));
+    occupied = http.createServer();
+    await new Promise<void>(resolve => occupied.listen(0, resolve));
+  });
+
+  afterEach(async () => {
+    storage.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    await new Promise(resolve => occupied.close(resolve));
+  });
+
+  test('start rejects when the port is already in use', async () => {
+    const api = new ApiServer(
+      storage,
+      () => ({}) as IndexerStatus,
+      new EventBus(),
+      new MetricsRegistry(),
+      () => ({}) as HealthStatus
+    );
+
+    const { port } = occupied.address() as AddressInfo;
+    await expect(api.start(port)).rejects.toMatchObject({ code: 'EADDRINUSE' });
+  });
+});
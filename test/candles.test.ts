@@ -0,0 +1,139 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexedTransaction, SqliteStorage } from '../src/storage';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const POOL_A = 'D4criefVQGkB9EHGnkT6dk4iqC1fD2Num9PzsMy1rfZQ';
+const POOL_B = '7EWrbxU7YpHthanStG9yF6KyHS77LBPH6f52ANJmL9rs';
+const PAIR = `${SOL}/${USDC}`;
+
+// 单笔 swap 的交易记录；sell 为卖出 SOL 换 USDC，否则为用 USDC 买入 SOL
+function swapTransaction(
+  signature: string,
+  slot: number,
+  blockTime: string,
+  pool: string,
+  side: 'sell' | 'buy',
+  solAmount: string,
+  usdcAmount: string
+): IndexedTransaction {
+  const sol = { mint: SOL, amount: solAmount, decimals: 9 };
+  const usdc = { mint: USDC, amount: usdcAmount, decimals: 6 };
+  const [input, output] = side === 'sell' ? [sol, usdc] : [usdc, sol];
+  return {
+    transaction: { signature, slot, blockTime, programs: [], accounts: [], logs: [] },
+    instructions: [],
+    swaps: [
+      {
+        outerIndex: 0,
+        depth: 0,
+        pool,
+        trader: 'trader',
+        counterparty: 'authority',
+        inputMint: input.mint,
+        inputAmount: input.amount,
+        inputUiAmount: '',
+        inputDecimals: input.decimals,
+        inputFrom: 'a',
+        inputTo: 'b',
+        outputMint: output.mint,
+        outputAmount: output.amount,
+        outputUiAmount: '',
+        outputDecimals: output.decimals,
+        outputFrom: 'c',
+        outputTo: 'd',
+      },
+    ],
+    pools: [],
+    liquidityEvents: [],
+    balanceChanges: [],
+  };
+}
+
+function block(slot: number) {
+  return { slot, blockhash: `hash-${slot}`, parentSlot: slot - 1, status: 'provisional' as const };
+}
+
+describe('candles', () => {
+  let dir: string;
+  let storage: SqliteStorage;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'candles-'));
+    storage = new SqliteStorage(path.join(dir, 'indexer.db'));
+
+    storage.saveBlock(block(100), [
+      swapTransaction('sig-1', 100, '2025-01-01T00:00:10.000Z', POOL_A, 'sell', '1000000000', '150000000'),
+    ]);
+    storage.saveBlock(block(101), [
+      swapTransaction('sig-2', 101, '2025-01-01T00:00:50.000Z', POOL_B, 'buy', '2000000000', '302000000'),
+    ]);
+    storage.saveBlock(block(102), [
+      swapTransaction('sig-3', 102, '2025-01-01T00:03:00.000Z', POOL_A, 'sell', '1000000000', '149000000'),
+    ]);
+  });
+
+  afterEach(() => {
+    storage.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function candles(marketType: 'pool' | 'pair', market: string, interval: '1m' | '5m' | '1d') {
+    return storage.queryCandles({ marketType, market, interval, limit: 100 });
+  }
+
+  test('aggregates swaps per pair and per pool, quoted in USDC', () => {
+    expect(candles('pair', PAIR, '1m')).toEqual([
+      {
+        marketType: 'pair',
+        market: PAIR,
+        interval: '1m',
+        openTime: '2025-01-01T00:00:00.000Z',
+        baseMint: SOL,
+        quoteMint: USDC,
+        baseDecimals: 9,
+        quoteDecimals: 6,
+        open: '150',
+        high: '151',
+        low: '150',
+        close: '151',
+        baseVolume: '3000000000',
+        baseUiVolume: '3',
+        quoteVolume: '452000000',
+        quoteUiVolume: '452',
+        trades: 2,
+      },
+      expect.objectContaining({ openTime: '2025-01-01T00:03:00.000Z', open: '149', trades: 1 }),
+    ]);
+    expect(candles('pair', PAIR, '5m')).toEqual([
+      expect.objectContaining({
+        openTime: '2025-01-01T00:00:00.000Z',
+        open: '150',
+        high: '151',
+        low: '149',
+        close: '149',
+        quoteUiVolume: '601',
+        trades: 3,
+      }),
+    ]);
+    expect(candles('pool', POOL_A, '1d')).toEqual([
+      expect.objectContaining({ open: '150', close: '149', baseUiVolume: '2', trades: 2 }),
+    ]);
+  });
+
+  test('rebuilds candles when a slot is re-processed or retracted', () => {
+    storage.saveBlock(block(101), [
+      swapTransaction('sig-2', 101, '2025-01-01T00:00:50.000Z', POOL_B, 'buy', '1000000000', '302000000'),
+    ]);
+    expect(candles('pair', PAIR, '1m')[0]).toMatchObject({ high: '302', close: '302', trades: 2 });
+    expect(candles('pair', PAIR, '1d')[0]).toMatchObject({ high: '302', trades: 3 });
+
+    storage.retractSlot(101);
+    expect(candles('pool', POOL_B, '1m')).toEqual([]);
+    expect(candles('pool', POOL_B, '1d')).toEqual([]);
+    expect(candles('pair', PAIR, '1m')[0]).toMatchObject({ close: '150', trades: 1 });
+    expect(candles('pair', PAIR, '5m')[0]).toMatchObject({ high: '150', low: '149', trades: 2 });
+  });
+});
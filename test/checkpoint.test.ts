@@ -0,0 +1,36 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CheckpointStore } from '../src/checkpoint';
+
+describe('CheckpointStore', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'checkpoint-'));
+    file = path.join(dir, 'checkpoint.json');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const saved = () => JSON.parse(fs.readFileSync(file, 'utf8'));
+
+  test('batches slot updates until flushed', () => {
+    const checkpoint = new CheckpointStore(file);
+    checkpoint.initialize(100);
+    expect(saved()).toMatchObject({ lastProcessedSlot: 99, inFlightSlots: [] });
+
+    checkpoint.markInFlight(100);
+    checkpoint.markInFlight(101);
+    checkpoint.markCompleted(101);
+    checkpoint.markCompleted(100);
+    expect(saved()).toMatchObject({ lastProcessedSlot: 99 });
+
+    checkpoint.flush();
+    expect(saved()).toMatchObject({ lastProcessedSlot: 101, inFlightSlots: [], completedSlots: [] });
+    expect(new CheckpointStore(file).getResumeSlot(0)).toBe(102);
+  });
+});
@@ -0,0 +1,34 @@
+import { EXIT_USAGE, main, parseArgs } from '../src/cli';
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  jest.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('cli', () => {
+  test('parses commands, positional arguments and options', () => {
+    expect(parseArgs(['index', '--from', '100', '--to=200'])).toEqual({
+      command: 'index',
+      positional: [],
+      options: { from: '100', to: '200' },
+    });
+    expect(parseArgs(['inspect-tx', 'abc', '--help'])).toEqual({
+      command: 'inspect-tx',
+      positional: ['abc'],
+      options: { help: true },
+    });
+  });
+
+  test('rejects unknown commands and invalid arguments before connecting', async () => {
+    expect(await main([])).toBe(EXIT_USAGE);
+    expect(await main(['unknown'])).toBe(EXIT_USAGE);
+    expect(await main(['index'])).toBe(EXIT_USAGE);
+    expect(await main(['index', '--from', '200', '--to', '100'])).toBe(EXIT_USAGE);
+    expect(await main(['inspect-slot', 'latest'])).toBe(EXIT_USAGE);
+    expect(await main(['inspect-tx'])).toBe(EXIT_USAGE);
+  });
+});
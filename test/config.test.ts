@@ -0,0 +1,103 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigError, loadConfig, validateConfig } from '../src/config';
+
+const CPMM = 'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C';
+// 部署在其他地址的 CPMM 程序
+const FORKED_CPMM = 'DRaycpLY18LhpbydsBWbVJtxpNv9oXPgjRSfpF2bWpYb';
+
+function configErrors(run: () => void): string[] {
+  try {
+    run();
+  } catch (error) {
+    if (error instanceof ConfigError) {
+      return error.errors;
+    }
+    throw error;
+  }
+  throw new Error('配置校验没有失败');
+}
+
+describe('config', () => {
+  test('fills defaults and infers the cluster from the RPC endpoint', () => {
+    const config = validateConfig({ rpc: { urls: ['https://api.testnet.solana.com'] } });
+
+    expect(config.cluster).toBe('testnet');
+    expect(config.source).toEqual({ kind: 'rpc', archiveDir: 'data/blocks' });
+    expect(config.commitment).toBe('confirmed');
+    expect(config.programs).toEqual([]);
+    expect(config.logs).toMatchObject({ sinks: ['file'], dir: 'logs', rotate: 'daily' });
+    expect(validateConfig({}).rpc.urls).toEqual(['https://api.devnet.solana.com']);
+  });
+
+  test('resolves per-program decoders and event types', () => {
+    const config = validateConfig({
+      programs: [CPMM, { id: FORKED_CPMM, decoder: 'raydium-cpmm', events: ['swap'] }],
+    });
+
+    expect(config.programs).toEqual([
+      { id: CPMM, decoder: 'raydium-cpmm', events: ['swap', 'liquidity'] },
+      { id: FORKED_CPMM, decoder: 'raydium-cpmm', events: ['swap'] },
+    ]);
+  });
+
+  test('accepts the singular WATCH_PROGRAM_ID as an alias', () => {
+    const env = { CONFIG_FILE: '', WATCH_PROGRAM_ID: CPMM };
+    expect(loadConfig(undefined, env).config.programs.map(program => program.id)).toEqual([CPMM]);
+    expect(loadConfig(undefined, { ...env, WATCH_PROGRAM_IDS: FORKED_CPMM }).config.programs
+      .map(program => program.id)).toEqual([FORKED_CPMM]);
+  });
+
+  test('environment variables override the config file', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'indexer-config-'));
+    const file = path.join(dir, 'indexer.config.json');
+    fs.writeFileSync(file, JSON.stringify({ startSlot: 100, rpc: { rateLimit: 2 }, debug: true }));
+    try {
+      const { config } = loadConfig(file, {
+        START_SLOT: '200',
+        WATCH_PROGRAM_IDS: `${CPMM}, `,
+        WATCH_WALLETS: FORKED_CPMM,
+      });
+
+      expect(config.startSlot).toBe(200);
+      expect(config.rpc.rateLimit).toBe(2);
+      expect(config.debug).toBe(true);
+      expect(config.programs.map(program => program.id)).toEqual([CPMM]);
+      expect(config.watchlists).toEqual([{ name: 'default', wallets: [FORKED_CPMM] }]);
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('reports every validation error with its path and environment variable', () => {
+    const errors = configErrors(() =>
+      loadConfig(undefined, {
+        CONFIG_FILE: '',
+        START_SLOT: 'latest',
+        WATCH_PROGRAM_IDS: 'not-a-key',
+        COMMITMENT: 'processed',
+      })
+    );
+
+    expect(errors).toEqual([
+      'startSlot（START_SLOT）: 必须是数字',
+      'commitment（COMMITMENT）: 只支持 confirmed、finalized，当前为 "processed"',
+      'programs[0].id（WATCH_PROGRAM_IDS）: not-a-key 不是有效的 base58 公钥',
+    ]);
+    expect(configErrors(() => validateConfig({
+      rpc: { url: 'https://example.com' },
+      programs: [{ id: FORKED_CPMM, events: ['swap'] }],
+    }))).toEqual([
+      'rpc.url: 不是有效的配置项',
+      'programs[0].events: 没有解码器的程序不能生成记录，需要设置 decoder',
+    ]);
+    expect(configErrors(() => loadConfig(undefined, { CONFIG_FILE: '', WATCH_PROGRAM_ID: 'bad' })))
+      .toEqual(['programs[0].id（WATCH_PROGRAM_ID）: bad 不是有效的 base58 公钥']);
+    expect(configErrors(() => loadConfig(undefined, { CONFIG_FILE: '', RPC_RATE_LIMIT: '0' })))
+      .toEqual(['rpc.rateLimit（RPC_RATE_LIMIT）: 必须大于 0']);
+    expect(configErrors(() => validateConfig({
+      webhooks: { endpoints: [{ url: 'https://example.com/hook', secret: 42 }] },
+    }))).toEqual(['webhooks.endpoints: webhook 配置第 1 项的 secret 必须是字符串']);
+  });
+});
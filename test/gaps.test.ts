@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Connection } from '@solana/web3.js';
+import { CheckpointStore } from '../src/checkpoint';
+import { GapTracker } from '../src/gaps';
+import { RpcPool } from '../src/rpc';
+
+// 只实现缺口扫描用到的两个方法
+function stubRpc(confirmedSlot: number, produced: number[]) {
+  const connection = {
+    getSlot: async () => confirmedSlot,
+    getBlocks: jest.fn(async (from: number, to: number) =>
+      produced.filter(slot => slot >= from && slot <= to)
+    ),
+  };
+  const rpc = {
+    request: <T>(fn: (connection: Connection) => Promise<T>) =>
+      fn(connection as unknown as Connection),
+  } as unknown as RpcPool;
+  return { rpc, connection };
+}
+
+describe('GapTracker', () => {
+  let dir: string;
+  let checkpoint: CheckpointStore;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gaps-'));
+    checkpoint = new CheckpointStore(path.join(dir, 'checkpoint.json'));
+    checkpoint.initialize(100);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    // 写出合并中的检查点，避免目录删除后定时器再次写入
+    checkpoint.flush();
+    jest.restoreAllMocks();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  // 与索引服务的 indexSlot 相同：开始时记为处理中，成功记为完成，失败记为失败
+  function indexSlot(failing: number[]) {
+    return jest.fn(async (slot: number) => {
+      checkpoint.markInFlight(slot);
+      if (failing.includes(slot)) {
+        checkpoint.markFailed(slot);
+        throw new Error(`Block not available for slot ${slot}`);
+      }
+      checkpoint.markCompleted(slot);
+    });
+  }
+
+  test('completes skipped leader slots and processes missed ones', async () => {
+    const { rpc, connection } = stubRpc(200, [100, 102, 103, 105]);
+    const processSlot = indexSlot([]);
+    const tracker = new GapTracker(rpc, checkpoint, processSlot, () => 105, false);
+
+    await tracker.scan();
+
+    expect(connection.getBlocks).toHaveBeenCalledWith(100, 105);
+    expect(processSlot.mock.calls.map(([slot]) => slot)).toEqual([100, 102, 103, 105]);
+    expect(checkpoint.getLastProcessedSlot()).toBe(105);
+    expect(tracker.getPendingRetries()).toEqual([]);
+  });
+
+  test('keeps failed slots uncompleted and retries them after a backoff', async () => {
+    const { rpc } = stubRpc(200, [100, 102, 103, 105]);
+    const processSlot = indexSlot([103]);
+    const tracker = new GapTracker(rpc, checkpoint, processSlot, () => 105, false);
+
+    await tracker.scan();
+
+    // 103 获取失败，检查点停在它之前；跳过的 104 和处理完成的 105 等待 103 完成
+    expect(checkpoint.getLastProcessedSlot()).toBe(102);
+    expect(checkpoint.isCompleted(103)).toBe(false);
+    expect(checkpoint.isInFlight(103)).toBe(false);
+    expect(checkpoint.isCompleted(104)).toBe(true);
+    expect(checkpoint.isCompleted(105)).toBe(true);
+    expect(tracker.getPendingRetries()).toEqual([103]);
+
+    // 退避时间内不会重试
+    processSlot.mockClear();
+    await tracker.scan();
+    expect(processSlot).not.toHaveBeenCalled();
+    expect(checkpoint.getLastProcessedSlot()).toBe(102);
+  });
+
+  test('does not scan past the confirmed slot or the scheduled slot', async () => {
+    const { rpc, connection } = stubRpc(103, [100, 101, 102, 103, 104]);
+    const tracker = new GapTracker(rpc, checkpoint, indexSlot([]), () => 110, false);
+
+    await tracker.scan();
+
+    expect(connection.getBlocks).toHaveBeenCalledWith(100, 103);
+    expect(checkpoint.getLastProcessedSlot()).toBe(103);
+  });
+});
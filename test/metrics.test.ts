@@ -0,0 +1,36 @@
+import { MetricsRegistry } from '../src/metrics';
+
+describe('MetricsRegistry', () => {
+  test('renders counters, gauges and histograms in Prometheus text format', () => {
+    const registry = new MetricsRegistry();
+    const slots = registry.counter('indexer_slots_total', 'slots');
+    const lag = registry.gauge('indexer_slot_lag', 'lag');
+    const duration = registry.histogram('indexer_rpc_request_duration_seconds', 'rpc', [0.1, 1]);
+    registry.onCollect(() => lag.set({}, 42));
+
+    slots.inc({ result: 'processed' });
+    slots.inc({ result: 'processed' }, 2);
+    slots.inc({ result: 'failed' });
+    duration.observe({ endpoint: 'api.devnet.solana.com' }, 0.05);
+    duration.observe({ endpoint: 'api.devnet.solana.com' }, 0.5);
+
+    expect(registry.render()).toBe(
+      [
+        '# HELP indexer_slots_total slots',
+        '# TYPE indexer_slots_total counter',
+        'indexer_slots_total{result="processed"} 3',
+        'indexer_slots_total{result="failed"} 1',
+        '# HELP indexer_slot_lag lag',
+        '# TYPE indexer_slot_lag gauge',
+        'indexer_slot_lag 42',
+        '# HELP indexer_rpc_request_duration_seconds rpc',
+        '# TYPE indexer_rpc_request_duration_seconds histogram',
+        'indexer_rpc_request_duration_seconds_bucket{endpoint="api.devnet.solana.com",le="0.1"} 1',
+        'indexer_rpc_request_duration_seconds_bucket{endpoint="api.devnet.solana.com",le="1"} 2',
+        'indexer_rpc_request_duration_seconds_bucket{endpoint="api.devnet.solana.com",le="+Inf"} 2',
+        'indexer_rpc_request_duration_seconds_sum{endpoint="api.devnet.solana.com"} 0.55',
+        'indexer_rpc_request_duration_seconds_count{endpoint="api.devnet.solana.com"} 2',
+      ].join('\n') + '\n'
+    );
+  });
+});
@@ -0,0 +1,399 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { PublicKey } from '@solana/web3.js';
+import bs58 from 'bs58';
+import { createDefaultDecoderRegistry, DecoderRegistry } from '../src/decoders';
+import { flattenInstructions, parseTransaction, ParsedTransaction } from '../src/parser';
+import { ArchivedBlock, deserializeBlock } from '../src/sources';
+
+const TRADER = 'AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9';
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const RAY = '4k3Dyjzvzp8eMZWUXbBCjEvwSkkk59S5iCNLY3QrkX6R';
+const BONK = 'DezXAZ8z7PnrnRJjz3wXBoRgixCa6xjnB7YaB1pPB263';
+const CPMM = 'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C';
+const CPMM_POOL = 'mBKqcnGotbsSb5vNrdyhzZ5EhqZdids9QYiTRckvi7v';
+
+// fixture 为单笔交易的归档区块（与 BLOCK_SOURCE=record 写入的格式相同，未压缩）
+function parseFixture(
+  name: string,
+  watchedPrograms: PublicKey[] = [],
+  decoders: DecoderRegistry = createDefaultDecoderRegistry(),
+  logMessages?: string[],
+  watchedWallets?: Set<string>
+): ParsedTransaction | null {
+  const archived = JSON.parse(
+    fs.readFileSync(path.join(__dirname, 'fixtures', `${name}.json`), 'utf8')
+  ) as ArchivedBlock;
+  const block = deserializeBlock(archived.block!);
+  if (logMessages) {
+    block.transactions[0].meta!.logMessages = logMessages;
+  }
+  return parseTransaction(block.transactions[0], {
+    slot: archived.slot,
+    blockTime: block.blockTime,
+    decoders,
+    watchedPrograms,
+    watchedWallets,
+    debug: false,
+  });
+}
+
+// CPMM SwapEvent 的 Program data 日志
+function cpmmSwapEventLog(inputAmount: bigint, outputAmount: bigint): string {
+  const data = Buffer.alloc(8 + 32 + 8 * 6 + 1);
+  Buffer.from('40c6cde8260871e2', 'hex').copy(data, 0);
+  Buffer.from(bs58.decode(CPMM_POOL)).copy(data, 8);
+  [812345678901n, 101234567890n, inputAmount, outputAmount, 0n, 0n].forEach((value, index) => {
+    data.writeBigUInt64LE(value, 40 + index * 8);
+  });
+  data.writeUInt8(1, 88);
+  return `Program data: ${data.toString('base64')}`;
+}
+
+function cpmmSwapLogs(eventLog: string): string[] {
+  return [
+    'Program ComputeBudget111111111111111111111111111111 invoke [1]',
+    'Program ComputeBudget111111111111111111111111111111 success',
+    `Program ${CPMM} invoke [1]`,
+    'Program log: Instruction: SwapBaseInput',
+    'Program TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA invoke [2]',
+    'Program TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA success',
+    eventLog,
+    `Program ${CPMM} success`,
+  ];
+}
+
+beforeAll(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => undefined);
+});
+
+afterAll(() => {
+  jest.restoreAllMocks();
+});
+
+describe('parseTransaction', () => {
+  test('SOL -> token swap via a temporary WSOL account', () => {
+    const parsed = parseFixture('sol-to-token')!;
+
+    expect(parsed.info.blockTime).toBe('2025-01-01T00:00:01.000Z');
+    expect(parsed.record.instructions.map(ix => ix.name)).toEqual([undefined, 'swap_base_input']);
+    expect(parsed.failures).toEqual([]);
+    expect(parsed.record.instructions[1].args).toEqual({
+      amount_in: '1500000000',
+      minimum_amount_out: '185000000',
+    });
+    expect(parsed.record.swaps).toEqual([
+      {
+        outerIndex: 1,
+        innerIndex: undefined,
+        depth: 0,
+        protocol: 'raydium-cpmm',
+        pool: 'mBKqcnGotbsSb5vNrdyhzZ5EhqZdids9QYiTRckvi7v',
+        trader: TRADER,
+        counterparty: '5Z6Ay5NEcbg3xhopc522sBCRXQujkTiuDRnHGfQdcnSf',
+        inputMint: SOL,
+        inputAmount: '1500000000',
+        inputUiAmount: '1.5',
+        inputDecimals: 9,
+        // 临时 WSOL 账户没有余额记录，输入来源记为交易者钱包
+        inputFrom: TRADER,
+        inputTo: 'AoVsGaj8MSJ6xwKxfFxo9iZWH3enC8RRTXKH2fx2F8os',
+        outputMint: RAY,
+        outputAmount: '187254321',
+        outputUiAmount: '187.254321',
+        outputDecimals: 6,
+        outputFrom: 'oapfTk8FG2np1vSoGANkbijWiQApHZMFAytSdCoass9',
+        outputTo: '5WcE8o73vmsSZXeeWTLm3ty3fAJKCnBWRF6VuKUme5nu',
+        price: '124.836214',
+        inputReserve: '813845678901',
+        outputReserve: '101047313569',
+      },
+    ]);
+    // CPMM swap 指令只有输入/输出金库，按 mint 排序还原 token0 / token1
+    expect(parsed.record.pools).toEqual([
+      {
+        address: 'mBKqcnGotbsSb5vNrdyhzZ5EhqZdids9QYiTRckvi7v',
+        protocol: 'raydium-cpmm',
+        baseMint: SOL,
+        quoteMint: RAY,
+        baseVault: 'AoVsGaj8MSJ6xwKxfFxo9iZWH3enC8RRTXKH2fx2F8os',
+        quoteVault: 'oapfTk8FG2np1vSoGANkbijWiQApHZMFAytSdCoass9',
+        baseDecimals: 9,
+        quoteDecimals: 6,
+        lpMint: undefined,
+        created: false,
+        baseReserve: '813845678901',
+        quoteReserve: '101047313569',
+      },
+    ]);
+  });
+
+  test('token -> token swap', () => {
+    const parsed = parseFixture('token-to-token')!;
+
+    expect(parsed.record.instructions[1].name).toBe('swap');
+    expect(parsed.record.instructions[1].args).toMatchObject({
+      amount: '250000000',
+      amount_specified_is_input: true,
+      a_to_b: true,
+    });
+    expect(parsed.record.swaps).toEqual([
+      {
+        outerIndex: 1,
+        innerIndex: undefined,
+        depth: 0,
+        protocol: 'orca-whirlpool',
+        pool: 'FMUEmtxhU46GzhKF4FW9MLJdQWiLgjiXP9TYRWSrqTpV',
+        trader: TRADER,
+        counterparty: 'FMUEmtxhU46GzhKF4FW9MLJdQWiLgjiXP9TYRWSrqTpV',
+        inputMint: USDC,
+        inputAmount: '250000000',
+        inputUiAmount: '250',
+        inputDecimals: 6,
+        inputFrom: '6JhaGdekBjU2RfiYWSjYdQAibx4LfSfTNFEeMUHnUVz7',
+        inputTo: '6TcyBfPdBt1kjsvDZLzmBFnuMaLWiTaAt4RjUr9VA5YD',
+        outputMint: BONK,
+        outputAmount: '1234567890123',
+        outputUiAmount: '12345678.90123',
+        outputDecimals: 5,
+        outputFrom: '4MfyR4G3NWfVRDWo6iNAHDBZqWMgwZX6FNtMqEW3a9JT',
+        outputTo: 'AB3FQHskSYuWVw4M9EpGdxNzrAjBNiYGpbH4CVzLFene',
+        price: '49382.71560492',
+        inputReserve: '52250000000',
+        outputReserve: '986419753208642',
+      },
+    ]);
+  });
+
+  test('multi-hop route produces one swap per CPI hop', () => {
+    const parsed = parseFixture('multi-hop')!;
+
+    expect(parsed.record.instructions.map(ix => [ix.outerIndex, ix.innerIndex, ix.depth])).toEqual([
+      [0, undefined, 0],
+      [1, undefined, 0],
+      [1, 0, 1],
+      [1, 1, 2],
+      [1, 2, 2],
+      [1, 3, 1],
+      [1, 4, 2],
+      [1, 5, 2],
+    ]);
+    expect(parsed.record.balanceChanges.find(change => change.owner === TRADER && change.mint === BONK))
+      .toMatchObject({ change: '741358024691', uiChange: '7413580.24691', decimals: 5 });
+    // 中间代币 USDC 在交易者账户上净变化为 0，由金库的变化补全
+    expect(parsed.record.swaps).toEqual([
+      {
+        outerIndex: 1,
+        innerIndex: 0,
+        depth: 1,
+        protocol: 'raydium-cpmm',
+        pool: '7EWrbxU7YpHthanStG9yF6KyHS77LBPH6f52ANJmL9rs',
+        trader: TRADER,
+        counterparty: '5Z6Ay5NEcbg3xhopc522sBCRXQujkTiuDRnHGfQdcnSf',
+        inputMint: SOL,
+        inputAmount: '1000000000',
+        inputUiAmount: '1',
+        inputDecimals: 9,
+        inputFrom: 'Bow1CGKGDB9mNxeWdw85E2aCthQ1oZX4oFEe7fYT17ew',
+        inputTo: 'F25s3DdjXdCxYBhh2z8FBusVEMT4b9bGNFVKJi3wFoF4',
+        outputMint: USDC,
+        outputAmount: '150123456',
+        outputUiAmount: '150.123456',
+        outputDecimals: 6,
+        outputFrom: '3Atsbq9N5EaCc9YWmqD2rUVedX4pqDe7hyk6JSyWRTrG',
+        outputTo: TRADER,
+        price: '150.123456',
+        inputReserve: '501000000000',
+        outputReserve: '74911604544',
+      },
+      {
+        outerIndex: 1,
+        innerIndex: 3,
+        depth: 1,
+        protocol: 'orca-whirlpool',
+        pool: 'FMUEmtxhU46GzhKF4FW9MLJdQWiLgjiXP9TYRWSrqTpV',
+        trader: TRADER,
+        counterparty: 'FMUEmtxhU46GzhKF4FW9MLJdQWiLgjiXP9TYRWSrqTpV',
+        inputMint: USDC,
+        inputAmount: '150123456',
+        inputUiAmount: '150.123456',
+        inputDecimals: 6,
+        inputFrom: TRADER,
+        inputTo: '6TcyBfPdBt1kjsvDZLzmBFnuMaLWiTaAt4RjUr9VA5YD',
+        outputMint: BONK,
+        outputAmount: '741358024691',
+        outputUiAmount: '7413580.24691',
+        outputDecimals: 5,
+        outputFrom: '4MfyR4G3NWfVRDWo6iNAHDBZqWMgwZX6FNtMqEW3a9JT',
+        outputTo: 'AB3FQHskSYuWVw4M9EpGdxNzrAjBNiYGpbH4CVzLFene',
+        price: '49383.223944098382600517',
+        inputReserve: '52150123456',
+        outputReserve: '986912963074074',
+      },
+    ]);
+  });
+
+  test('CPMM deposit is recorded as an LP-mint liquidity event', () => {
+    const parsed = parseFixture('add-liquidity')!;
+
+    expect(parsed.record.swaps).toEqual([]);
+    // 数量为金库余额的实际变化，而不是指令参数中的上限
+    expect(parsed.record.liquidityEvents).toEqual([
+      {
+        outerIndex: 1,
+        innerIndex: undefined,
+        depth: 0,
+        protocol: 'raydium-cpmm',
+        type: 'addLiquidity',
+        pool: 'mBKqcnGotbsSb5vNrdyhzZ5EhqZdids9QYiTRckvi7v',
+        owner: TRADER,
+        lpMint: 'GhFJh9xhWQULf6W1WJLNTViiTWEs4wAj3FevZ616wxL2',
+        liquidity: '3000000000',
+        token0Mint: SOL,
+        token0Amount: '2005000000',
+        token0UiAmount: '2.005',
+        token0Decimals: 9,
+        token1Mint: RAY,
+        token1Amount: '248770000',
+        token1UiAmount: '248.77',
+        token1Decimals: 6,
+      },
+    ]);
+    expect(parsed.record.pools[0]).toMatchObject({
+      lpMint: 'GhFJh9xhWQULf6W1WJLNTViiTWEs4wAj3FevZ616wxL2',
+      baseReserve: '815850678901',
+      quoteReserve: '101296083569',
+    });
+  });
+
+  test('CLMM open position is recorded with position NFT and tick range', () => {
+    const parsed = parseFixture('open-position')!;
+
+    expect(parsed.record.instructions[1].name).toBe('open_position_v2');
+    expect(parsed.record.liquidityEvents).toEqual([
+      {
+        outerIndex: 1,
+        innerIndex: undefined,
+        depth: 0,
+        protocol: 'raydium-clmm',
+        type: 'openPosition',
+        pool: '7LSfLv2S6K7zMPrgmJDkZoJNhWvWRzpU7qt9uMR5yz8G',
+        owner: TRADER,
+        position: '8zvEZXMTHrhQze7z6uEG2Y8YmJRk25DYvfAYUHKjKpJq',
+        positionMint: '4AdS22kC7xzb4bcqg9JATuCfAMNcQYcZa1u5eWzs6cSJ',
+        tickLower: -1200,
+        tickUpper: 600,
+        liquidity: '48216340911',
+        token0Mint: SOL,
+        token0Amount: '987654322',
+        token0UiAmount: '0.987654322',
+        token0Decimals: 9,
+        token1Mint: USDC,
+        token1Amount: '149012345',
+        token1UiAmount: '149.012345',
+        token1Decimals: 6,
+      },
+    ]);
+  });
+
+  test('programs only produce the configured record types', () => {
+    const decoders = createDefaultDecoderRegistry();
+    const cpmm = decoders.get('CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C')!;
+    decoders.register(cpmm, { events: ['liquidity'] });
+
+    const swap = parseFixture('sol-to-token', [], decoders)!;
+    expect(swap.record.instructions[1].name).toBe('swap_base_input');
+    expect(swap.record.swaps).toEqual([]);
+    expect(parseFixture('add-liquidity', [], decoders)!.record.liquidityEvents).toHaveLength(1);
+  });
+
+  test('Anchor events in the logs are attached to the emitting instruction', () => {
+    const parsed = parseFixture('sol-to-token', [], undefined, cpmmSwapLogs(
+      cpmmSwapEventLog(1500000000n, 187254321n)
+    ))!;
+
+    expect(parsed.record.instructions[0].events).toBeUndefined();
+    expect(parsed.record.instructions[1].events).toEqual([
+      {
+        protocol: 'raydium-cpmm',
+        discriminator: '40c6cde8260871e2',
+        name: 'SwapEvent',
+        fields: {
+          pool_id: CPMM_POOL,
+          input_vault_before: '812345678901',
+          output_vault_before: '101234567890',
+          input_amount: '1500000000',
+          output_amount: '187254321',
+          input_transfer_fee: '0',
+          output_transfer_fee: '0',
+          base_input: true,
+        },
+        swap: {
+          inputAmount: '1500000000',
+          outputAmount: '187254321',
+          inputTransferFee: '0',
+          outputTransferFee: '0',
+        },
+      },
+    ]);
+    expect(parsed.failures).toEqual([]);
+  });
+
+  test('swaps that disagree with the program event are reported', () => {
+    const parsed = parseFixture('sol-to-token', [], undefined, cpmmSwapLogs(
+      cpmmSwapEventLog(1500000000n, 187000000n)
+    ))!;
+
+    // 记录仍按余额变化写入，只报告不一致
+    expect(parsed.record.swaps[0].outputAmount).toBe('187254321');
+    expect(parsed.failures).toEqual(['swap_event_mismatch']);
+  });
+
+  test('failed transactions are not indexed', () => {
+    expect(parseFixture('failed')).toBeNull();
+  });
+
+  test('transactions outside the watched programs are not indexed', () => {
+    const cpmm = new PublicKey('CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C');
+    expect(parseFixture('token-to-token', [cpmm])).toBeNull();
+    expect(parseFixture('sol-to-token', [cpmm])).not.toBeNull();
+  });
+
+  test('token balance changes of watched wallets are kept outside the watched programs', () => {
+    const cpmm = new PublicKey('CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C');
+    const parsed = parseFixture('token-to-token', [cpmm], undefined, undefined, new Set([TRADER]))!;
+
+    expect(parsed.info.programs).toEqual([]);
+    expect(parsed.record.instructions).toEqual([]);
+    expect(parsed.record.swaps).toEqual([]);
+    expect(parsed.record.balanceChanges.some(change => change.owner === TRADER)).toBe(true);
+    expect(parseFixture('token-to-token', [cpmm], undefined, undefined, new Set([CPMM_POOL])))
+      .toBeNull();
+  });
+});
+
+describe('flattenInstructions', () => {
+  test('inner instructions without stackHeight have an unknown depth', () => {
+    // 新版本节点返回 stackHeight，web3.js 的类型中没有该字段
+    const nested = { programIdIndex: 3, accounts: [0], data: bs58.encode([3]), stackHeight: 3 };
+    const flattened = flattenInstructions(
+      [{ programIdIndex: 1, accountKeyIndexes: [0], data: Uint8Array.from([1]) }],
+      [
+        {
+          index: 0,
+          instructions: [
+            { programIdIndex: 2, accounts: [0], data: bs58.encode([2]) },
+            nested,
+          ],
+        },
+      ]
+    );
+
+    expect(flattened.map(ix => [ix.outerIndex, ix.innerIndex, ix.depth])).toEqual([
+      [0, undefined, 0],
+      [0, 0, undefined],
+      [0, 1, 2],
+    ]);
+  });
+});
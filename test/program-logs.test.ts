@@ -0,0 +1,79 @@
+import { matchInvocations, parseProgramLogs } from '../src/program-logs';
+
+const ROUTER = 'JUP6LkbZbjS1jKKwapdHNy74zcZ3tLUZoi5QNyVTaV4';
+const CLMM = 'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK';
+const TOKEN = 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA';
+
+const data = (text: string) => `Program data: ${Buffer.from(text).toString('base64')}`;
+
+describe('program logs', () => {
+  test('assigns Program data lines to the invocation on top of the stack', () => {
+    const { invocations, truncated } = parseProgramLogs([
+      `Program ${ROUTER} invoke [1]`,
+      'Program log: Instruction: Route',
+      `Program ${CLMM} invoke [2]`,
+      `Program ${TOKEN} invoke [3]`,
+      `Program ${TOKEN} success`,
+      data('swap'),
+      `Program ${CLMM} consumed 50000 of 200000 compute units`,
+      `Program ${CLMM} success`,
+      data('route'),
+      `Program ${ROUTER} failed: custom program error: 0x1771`,
+    ]);
+
+    expect(truncated).toBe(false);
+    expect(invocations.map(({ programId, depth, succeeded }) => [programId, depth, succeeded]))
+      .toEqual([
+        [ROUTER, 0, false],
+        [CLMM, 1, true],
+        [TOKEN, 2, true],
+      ]);
+    expect(invocations.map(invocation => invocation.data.map(String))).toEqual([
+      ['route'],
+      ['swap'],
+      [],
+    ]);
+  });
+
+  test('stops at truncated logs', () => {
+    const { invocations, truncated } = parseProgramLogs([
+      `Program ${CLMM} invoke [1]`,
+      'Log truncated',
+      data('lost'),
+    ]);
+
+    expect(truncated).toBe(true);
+    expect(invocations).toEqual([
+      { programId: CLMM, depth: 0, data: [], succeeded: false },
+    ]);
+  });
+
+  test('matches invocations to instructions by program and depth in execution order', () => {
+    const instructions = [
+      { programId: 'ComputeBudget111111111111111111111111111111', depth: 0 },
+      { programId: ROUTER, depth: 0 },
+      { programId: CLMM, depth: 1 },
+      { programId: TOKEN, depth: 2 },
+      { programId: CLMM, depth: 1 },
+    ];
+    const { invocations } = parseProgramLogs([
+      `Program ${ROUTER} invoke [1]`,
+      `Program ${CLMM} invoke [2]`,
+      data('first'),
+      `Program ${CLMM} success`,
+      `Program ${CLMM} invoke [2]`,
+      data('second'),
+      `Program ${CLMM} success`,
+      `Program ${ROUTER} success`,
+    ]);
+
+    const matched = matchInvocations(instructions, invocations);
+    expect(matched.map(invocation => invocation?.data.map(String))).toEqual([
+      undefined,
+      [],
+      ['first'],
+      undefined,
+      ['second'],
+    ]);
+  });
+});
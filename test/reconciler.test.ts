@@ -0,0 +1,119 @@
+import { Connection } from '@solana/web3.js';
+import { RetractionEvent, SlotReconciler } from '../src/reconciler';
+import { RpcPool } from '../src/rpc';
+import { IndexedTransaction, SqliteStorage } from '../src/storage';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+function swapTransaction(signature: string, slot: number): IndexedTransaction {
+  return {
+    transaction: { signature, slot, blockTime: null, programs: [], accounts: [], logs: [] },
+    instructions: [],
+    swaps: [
+      {
+        outerIndex: 0,
+        depth: 0,
+        pool: 'pool',
+        trader: 'trader',
+        counterparty: 'authority',
+        inputMint: USDC,
+        inputAmount: '150000000',
+        inputUiAmount: '150',
+        inputDecimals: 6,
+        inputFrom: 'a',
+        inputTo: 'b',
+        outputMint: SOL,
+        outputAmount: '1000000000',
+        outputUiAmount: '1',
+        outputDecimals: 9,
+        outputFrom: 'c',
+        outputTo: 'd',
+      },
+    ],
+    pools: [],
+    liquidityEvents: [],
+    balanceChanges: [],
+  };
+}
+
+// finalized 链：finalizedSlot 及之前只有 canonical 中的区块
+function stubRpc(state: { finalizedSlot: number; canonical: number[] }) {
+  const connection = {
+    getSlot: async () => state.finalizedSlot,
+    getBlocks: jest.fn(async (from: number, to: number) =>
+      state.canonical.filter(slot => slot >= from && slot <= to)
+    ),
+  };
+  const rpc = {
+    request: <T>(fn: (connection: Connection) => Promise<T>) =>
+      fn(connection as unknown as Connection),
+  } as unknown as RpcPool;
+  return { rpc, connection };
+}
+
+describe('SlotReconciler', () => {
+  let storage: SqliteStorage;
+
+  beforeEach(() => {
+    storage = new SqliteStorage(':memory:');
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    storage.close();
+    jest.restoreAllMocks();
+  });
+
+  function saveProvisional(slot: number, signature: string) {
+    storage.saveBlock(
+      { slot, blockhash: `hash-${slot}`, parentSlot: slot - 1, status: 'provisional' },
+      [swapTransaction(signature, slot)]
+    );
+  }
+
+  test('promotes canonical slots and retracts forked ones once finalized', async () => {
+    saveProvisional(100, 'sig-canonical');
+    saveProvisional(101, 'sig-forked');
+    saveProvisional(102, 'sig-pending');
+    const state = { finalizedSlot: 101, canonical: [100] };
+    const { rpc, connection } = stubRpc(state);
+    const reconciler = new SlotReconciler(rpc, storage, false);
+    const retractions: RetractionEvent[] = [];
+    reconciler.on('retraction', (event: RetractionEvent) => retractions.push(event));
+
+    await reconciler.start(60000);
+    reconciler.stop();
+
+    expect(connection.getBlocks).toHaveBeenCalledWith(100, 101, 'finalized');
+    expect(storage.getTransaction('sig-canonical')).toMatchObject({ status: 'final' });
+    expect(storage.querySwaps({ limit: 10 }).swaps.map(swap => [swap.signature, swap.status]))
+      .toEqual([['sig-pending', 'provisional'], ['sig-canonical', 'final']]);
+    expect(storage.getTransaction('sig-forked')).toBeNull();
+    expect(retractions).toEqual([
+      { slot: 101, signatures: ['sig-forked'], retractedAt: expect.any(String) },
+    ]);
+    // 尚未 finalized 的区块保持临时状态
+    expect(storage.getProvisionalSlots()).toEqual([102]);
+    expect(reconciler.isFinalized(102)).toBe(false);
+
+    // root 推进后再确认剩余的区块
+    state.finalizedSlot = 102;
+    state.canonical = [100, 102];
+    await reconciler.onRoot(102);
+    expect(storage.getTransaction('sig-pending')).toMatchObject({ status: 'final' });
+    expect(storage.getProvisionalSlots()).toEqual([]);
+    expect(retractions).toHaveLength(1);
+  });
+
+  test('ignores roots that are not newer than the finalized slot', async () => {
+    const { rpc, connection } = stubRpc({ finalizedSlot: 100, canonical: [] });
+    const reconciler = new SlotReconciler(rpc, storage, false);
+    await reconciler.start(60000);
+    reconciler.stop();
+
+    reconciler.track(101);
+    await reconciler.onRoot(100);
+    expect(connection.getBlocks).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,115 @@
+import { Connection } from '@solana/web3.js';
+import { RpcPool, RpcRequestOutcome } from '../src/rpc';
+
+const PRIMARY = 'https://primary.example.com/key-123';
+const BACKUP = 'https://backup.example.com/key-456';
+
+// 按节点返回结果，不访问网络
+function byEndpoint(results: Record<string, (connection: Connection) => Promise<number>>) {
+  return (connection: Connection) => results[connection.rpcEndpoint](connection);
+}
+
+describe('RpcPool', () => {
+  let logs: jest.SpyInstance;
+
+  beforeEach(() => {
+    logs = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('rejects a non-positive request rate', () => {
+    expect(() => new RpcPool({ urls: [PRIMARY], requestsPerSecond: 0, maxRetries: 0 }))
+      .toThrow('每秒请求数必须大于 0，当前为 0');
+    expect(() => new RpcPool({ urls: [PRIMARY], requestsPerSecond: -1, maxRetries: 0 }))
+      .toThrow('每秒请求数必须大于 0');
+  });
+
+  test('waits for the token bucket to refill once the burst is used', async () => {
+    const pool = new RpcPool({ urls: [PRIMARY], requestsPerSecond: 10, maxRetries: 0 });
+    const request = () => pool.request(async () => Date.now());
+
+    const startedAt = Date.now();
+    const burst = await Promise.all(Array.from({ length: 10 }, request));
+    // 桶容量为每秒请求数，前 10 个请求不需要等待
+    expect(Math.max(...burst) - startedAt).toBeLessThan(100);
+
+    // 之后每个请求等待约 100ms 补充一个令牌
+    await request();
+    await request();
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(150);
+  });
+
+  test('cools down a rate-limited endpoint for Retry-After and retries on the next one', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response('rate limited', { status: 429, headers: { 'Retry-After': '120' } })
+    );
+    const outcomes: [string, RpcRequestOutcome][] = [];
+    const pool = new RpcPool({
+      urls: [PRIMARY, BACKUP],
+      requestsPerSecond: 100,
+      maxRetries: 2,
+      onRequest: (url, outcome) => outcomes.push([url, outcome]),
+    });
+    const result = await pool.request(byEndpoint({
+      // 通过节点自己的 fetch 发出请求，Retry-After 来自响应头
+      [PRIMARY]: connection => connection.getSlot(),
+      [BACKUP]: async () => 42,
+    }));
+
+    expect(result).toBe(42);
+    expect(outcomes).toEqual([[PRIMARY, 'rate_limited'], [BACKUP, 'success']]);
+    expect(logs).toHaveBeenCalledWith('节点 primary.example.com 遇到速率限制，暂停 120000ms');
+    expect(pool.getStats()).toEqual([
+      expect.objectContaining({ endpoint: 'primary.example.com', rateLimited: 1, coolingDown: true }),
+      expect.objectContaining({ endpoint: 'backup.example.com', requests: 1, coolingDown: false }),
+    ]);
+
+    // 冷却期间的请求都发往其他节点
+    await expect(pool.request(byEndpoint({
+      [PRIMARY]: async () => 1,
+      [BACKUP]: async () => 2,
+    }))).resolves.toBe(2);
+  });
+
+  test('fails over to the next endpoint on network errors', async () => {
+    const pool = new RpcPool({ urls: [PRIMARY, BACKUP], requestsPerSecond: 100, maxRetries: 1 });
+
+    const result = await pool.request(byEndpoint({
+      [PRIMARY]: () => Promise.reject(new Error('fetch failed')),
+      [BACKUP]: async () => 7,
+    }));
+
+    expect(result).toBe(7);
+    expect(logs).toHaveBeenCalledWith('节点 primary.example.com 请求失败，切换节点重试: fetch failed');
+    expect(pool.getStats()[0]).toMatchObject({ errors: 1, coolingDown: true });
+  });
+
+  test('writes failover logs to the given output instead of console', async () => {
+    const output = { log: jest.fn() } as unknown as Console;
+    const pool = new RpcPool({
+      urls: [PRIMARY, BACKUP],
+      requestsPerSecond: 100,
+      maxRetries: 1,
+      output,
+    });
+
+    await pool.request(byEndpoint({
+      [PRIMARY]: () => Promise.reject(new Error('fetch failed')),
+      [BACKUP]: async () => 7,
+    }));
+
+    expect(output.log).toHaveBeenCalledWith('节点 primary.example.com 请求失败，切换节点重试: fetch failed');
+    expect(logs).not.toHaveBeenCalled();
+  });
+
+  test('does not retry errors unrelated to the endpoint', async () => {
+    const pool = new RpcPool({ urls: [PRIMARY, BACKUP], requestsPerSecond: 100, maxRetries: 2 });
+    const fn = jest.fn(() => Promise.reject(new Error('Slot 5 was skipped')));
+
+    await expect(pool.request(fn)).rejects.toThrow('was skipped');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
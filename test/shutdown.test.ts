@@ -0,0 +1,64 @@
+import { EventEmitter } from 'events';
+import { handleShutdownSignals, settleWithin } from '../src/shutdown';
+
+function deferred<T = void>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>(done => (resolve = done));
+  return { promise, resolve };
+}
+
+describe('shutdown', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('reports whether a promise settles before the timeout', async () => {
+    expect(await settleWithin(Promise.resolve(), 1000)).toBe(true);
+    expect(await settleWithin(Promise.reject(new Error('failed')), 1000)).toBe(true);
+    expect(await settleWithin(new Promise(() => undefined), 10)).toBe(false);
+  });
+
+  test('runs shutdown once and exits with its code, forcing exit on a second signal', async () => {
+    const target = new EventEmitter();
+    const exits: number[] = [];
+    const pending = deferred<number>();
+    const shutdown = jest.fn(() => pending.promise);
+    const remove = handleShutdownSignals(shutdown, {
+      timeoutMs: 1000,
+      target,
+      exit: code => exits.push(code),
+    });
+
+    target.emit('SIGTERM', 'SIGTERM');
+    expect(shutdown).toHaveBeenCalledWith('SIGTERM');
+    target.emit('SIGINT', 'SIGINT');
+    expect(shutdown).toHaveBeenCalledTimes(1);
+    expect(exits).toEqual([1]);
+
+    pending.resolve(0);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(exits).toEqual([1, 0]);
+
+    remove();
+    expect(target.listenerCount('SIGINT')).toBe(0);
+    expect(target.listenerCount('SIGTERM')).toBe(0);
+  });
+
+  test('exits with a failure code when shutdown throws', async () => {
+    const target = new EventEmitter();
+    const exited = deferred<number>();
+    handleShutdownSignals(() => Promise.reject(new Error('storage closed')), {
+      timeoutMs: 1000,
+      target,
+      exit: exited.resolve,
+    });
+
+    target.emit('SIGINT', 'SIGINT');
+    expect(await exited.promise).toBe(1);
+  });
+});
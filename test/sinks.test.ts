@@ -0,0 +1,71 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PassThrough } from 'stream';
+import { FanoutSink, NdjsonFileSink, StdoutSink } from '../src/sinks';
+
+const HOUR = 3600 * 1000;
+
+describe('log sinks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'sinks-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  function readLines(file: string) {
+    return fs.readFileSync(path.join(dir, file), 'utf8').trim().split('\n').map(line => JSON.parse(line));
+  }
+
+  test('buffers records as NDJSON and rotates by size and by time', async () => {
+    let now = Date.parse('2025-01-01T00:10:00.000Z');
+    const sink = new NdjsonFileSink({
+      dir,
+      maxBytes: 40,
+      rotateInterval: HOUR,
+      flushInterval: 60000,
+      maxBufferBytes: 1024 * 1024,
+      now: () => now,
+    });
+
+    sink.write('swaps', { n: 1, padding: 'x'.repeat(10) });
+    expect(fs.existsSync(path.join(dir, 'swaps.log'))).toBe(false);
+    await sink.flush();
+    expect(readLines('swaps.log')).toEqual([{ n: 1, padding: 'x'.repeat(10) }]);
+
+    // 超过 maxBytes：旧文件以开始时间命名
+    now += 60000;
+    sink.write('swaps', { n: 2, padding: 'x'.repeat(10) });
+    await sink.flush();
+    expect(readLines('swaps.2025-01-01T00-10-00.log')).toEqual([{ n: 1, padding: 'x'.repeat(10) }]);
+    expect(readLines('swaps.log')).toEqual([{ n: 2, padding: 'x'.repeat(10) }]);
+
+    // 跨越小时
+    now = Date.parse('2025-01-01T01:00:00.000Z');
+    sink.write('swaps', { n: 3 });
+    await sink.close();
+    expect(readLines('swaps.2025-01-01T00-11-00.log')).toEqual([{ n: 2, padding: 'x'.repeat(10) }]);
+    expect(readLines('swaps.log')).toEqual([{ n: 3 }]);
+  });
+
+  test('fans out to stdout with the stream name', async () => {
+    const output = new PassThrough();
+    let printed = '';
+    output.on('data', chunk => (printed += chunk));
+    const sink = new FanoutSink([
+      new NdjsonFileSink({ dir, maxBytes: 0, rotateInterval: 0, flushInterval: 60000, maxBufferBytes: 1 }),
+      new StdoutSink({ streams: ['swaps'], flushInterval: 60000, output }),
+    ]);
+
+    sink.write('swaps', { n: 1 });
+    sink.write('transactions', { n: 2 });
+    await sink.close();
+
+    expect(printed).toBe('{"stream":"swaps","n":1}\n');
+    expect(readLines('transactions.log')).toEqual([{ n: 2 }]);
+  });
+});
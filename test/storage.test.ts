@@ -0,0 +1,98 @@
+import { IndexedTransaction, SqliteStorage } from '../src/storage';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+function swapTransaction(
+  signature: string,
+  slot: number,
+  outputAmounts: string[]
+): IndexedTransaction {
+  return {
+    transaction: { signature, slot, blockTime: null, programs: ['program'], accounts: [], logs: [] },
+    instructions: outputAmounts.map((_, outerIndex) => ({
+      outerIndex,
+      depth: 0,
+      programId: 'program',
+      type: 'swap',
+      data: '00',
+    })),
+    swaps: outputAmounts.map((outputAmount, outerIndex) => ({
+      outerIndex,
+      depth: 0,
+      pool: 'pool',
+      trader: 'trader',
+      counterparty: 'authority',
+      inputMint: USDC,
+      inputAmount: '150000000',
+      inputUiAmount: '150',
+      inputDecimals: 6,
+      inputFrom: 'a',
+      inputTo: 'b',
+      outputMint: SOL,
+      outputAmount,
+      outputUiAmount: '',
+      outputDecimals: 9,
+      outputFrom: 'c',
+      outputTo: 'd',
+    })),
+    pools: [],
+    liquidityEvents: [],
+    balanceChanges: [
+      {
+        accountIndex: 1,
+        account: 'usdc-account',
+        owner: 'trader',
+        mint: USDC,
+        decimals: 6,
+        change: '-150000000',
+        uiChange: '-150',
+      },
+    ],
+  };
+}
+
+describe('SqliteStorage', () => {
+  let storage: SqliteStorage;
+
+  beforeEach(() => {
+    storage = new SqliteStorage(':memory:');
+  });
+
+  afterEach(() => {
+    storage.close();
+  });
+
+  test('re-inserting a signature replaces its rows instead of duplicating them', () => {
+    storage.saveTransaction(
+      swapTransaction('sig-1', 100, ['1000000000', '2000000000']),
+      'provisional'
+    );
+    storage.saveTransaction(swapTransaction('sig-2', 100, ['3000000000']), 'provisional');
+
+    // 重复处理同一区块：sig-1 少了一条 swap，数量和状态都有变化
+    storage.saveTransaction(swapTransaction('sig-1', 100, ['1100000000']), 'final');
+
+    const { swaps } = storage.querySwaps({ limit: 10 });
+    expect(swaps.map(swap => [swap.signature, swap.output.amount, swap.status])).toEqual([
+      ['sig-2', '3000000000', 'provisional'],
+      ['sig-1', '1100000000', 'final'],
+    ]);
+
+    const stored = storage.getTransaction('sig-1')!;
+    expect(stored.status).toBe('final');
+    expect(stored.slot).toBe(100);
+    expect(stored.instructions).toHaveLength(1);
+    expect(stored.swaps).toHaveLength(1);
+    expect(stored.balanceChanges).toHaveLength(1);
+  });
+
+  test('saving the same block twice keeps one copy of each transaction', () => {
+    const block = { slot: 100, blockhash: 'hash-100', parentSlot: 99, status: 'final' as const };
+    storage.saveBlock(block, [swapTransaction('sig-1', 100, ['1000000000'])]);
+    storage.saveBlock(block, [swapTransaction('sig-1', 100, ['1000000000'])]);
+
+    expect(storage.querySwaps({ limit: 10 }).swaps).toHaveLength(1);
+    expect(storage.getTransaction('sig-1')!.balanceChanges).toHaveLength(1);
+  });
+});
@@ -0,0 +1,129 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { AccountInfo, Keypair, PublicKey } from '@solana/web3.js';
+import { TokenMetadataResolver } from '../src/tokens';
+
+const TOKEN_PROGRAM_ID = new PublicKey('TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA');
+const TOKEN_2022_PROGRAM_ID = new PublicKey('TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb');
+const METADATA_PROGRAM_ID = new PublicKey('metaqbxxUerdq28cj1RbAWkYQm3ybzjb6a8bt518x1s');
+
+function borshString(value: string, padTo = value.length): Buffer {
+  const bytes = Buffer.alloc(padTo);
+  bytes.write(value);
+  const length = Buffer.alloc(4);
+  length.writeUInt32LE(padTo);
+  return Buffer.concat([length, bytes]);
+}
+
+function mintData(decimals: number, size = 82): Buffer {
+  const data = Buffer.alloc(size);
+  data[44] = decimals;
+  data[45] = 1;
+  return data;
+}
+
+function account(owner: PublicKey, data: Buffer): AccountInfo<Buffer> {
+  return { owner, data, lamports: 1, executable: false };
+}
+
+describe('TokenMetadataResolver', () => {
+  let dir: string;
+  const metaplexMint = Keypair.generate().publicKey;
+  const token2022Mint = Keypair.generate().publicKey;
+  const bareMint = Keypair.generate().publicKey;
+  const metadataPda = PublicKey.findProgramAddressSync(
+    [Buffer.from('metadata'), METADATA_PROGRAM_ID.toBuffer(), metaplexMint.toBuffer()],
+    METADATA_PROGRAM_ID
+  )[0];
+
+  // Token-2022 mint：基础 mint 填充到 165 字节 + account_type，再接 TokenMetadata 扩展
+  const metadataExtension = Buffer.concat([
+    Buffer.alloc(64),
+    borshString('Pay Token'),
+    borshString('PAY'),
+    borshString('https://example.com/pay.json'),
+  ]);
+  const extensionHeader = Buffer.alloc(4);
+  extensionHeader.writeUInt16LE(19, 0);
+  extensionHeader.writeUInt16LE(metadataExtension.length, 2);
+  const token2022Data = Buffer.concat([mintData(2, 165), Buffer.from([1]), extensionHeader, metadataExtension]);
+
+  const accounts = new Map<string, AccountInfo<Buffer>>([
+    [metaplexMint.toBase58(), account(TOKEN_PROGRAM_ID, mintData(8))],
+    [metadataPda.toBase58(), account(METADATA_PROGRAM_ID, Buffer.concat([
+      Buffer.alloc(65),
+      borshString('Meta Token', 32),
+      borshString('META', 10),
+      borshString('https://example.com/meta.json', 200),
+    ]))],
+    [token2022Mint.toBase58(), account(TOKEN_2022_PROGRAM_ID, token2022Data)],
+    [bareMint.toBase58(), account(TOKEN_PROGRAM_ID, mintData(3))],
+  ]);
+  const fetchAccounts = jest.fn(async (keys: PublicKey[]) =>
+    keys.map(key => accounts.get(key.toBase58()) || null)
+  );
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tokens-'));
+    fetchAccounts.mockClear();
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('uses the per-cluster registry', () => {
+    const devnet = new TokenMetadataResolver({ cluster: 'devnet', cacheFile: path.join(dir, 'cache.json') });
+    const mainnet = new TokenMetadataResolver({ cluster: 'mainnet-beta', cacheFile: path.join(dir, 'cache.json') });
+
+    expect(devnet.label('4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU')).toBe('USDC');
+    expect(mainnet.label('4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU')).toBe('4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU');
+    expect(mainnet.get('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v')).toEqual({
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+      source: 'registry',
+    });
+  });
+
+  test('resolves Metaplex and Token-2022 metadata and caches the result', async () => {
+    const cacheFile = path.join(dir, 'cache.json');
+    const resolver = new TokenMetadataResolver({ cluster: 'mainnet-beta', cacheFile, fetchAccounts });
+
+    await resolver.resolve([metaplexMint.toBase58(), token2022Mint.toBase58(), bareMint.toBase58()]);
+
+    expect(resolver.get(metaplexMint.toBase58())).toEqual({
+      symbol: 'META',
+      name: 'Meta Token',
+      decimals: 8,
+      source: 'metaplex',
+    });
+    expect(resolver.get(token2022Mint.toBase58())).toEqual({
+      symbol: 'PAY',
+      name: 'Pay Token',
+      decimals: 2,
+      source: 'token-2022',
+    });
+    expect(resolver.get(bareMint.toBase58())).toEqual({
+      symbol: undefined,
+      name: undefined,
+      decimals: 3,
+      source: 'mint',
+    });
+
+    // 查询结果在关闭时写入缓存文件
+    expect(fs.existsSync(cacheFile)).toBe(false);
+    await resolver.close();
+
+    // 重启后从缓存读取，不再查询链上
+    const restarted = new TokenMetadataResolver({ cluster: 'mainnet-beta', cacheFile, fetchAccounts });
+    await restarted.resolve([metaplexMint.toBase58()]);
+    expect(fetchAccounts).toHaveBeenCalledTimes(1);
+    expect(restarted.label(metaplexMint.toBase58())).toBe('META');
+
+    // 缓存按集群区分
+    const devnet = new TokenMetadataResolver({ cluster: 'devnet', cacheFile });
+    expect(devnet.get(metaplexMint.toBase58())).toBeUndefined();
+  });
+});
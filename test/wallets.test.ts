@@ -0,0 +1,196 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { IndexedTransaction, SqliteStorage } from '../src/storage';
+import { accumulatePosition, WalletWatchlists } from '../src/wallets';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+const TRADER = 'AKnL4NNf3DGWZJS6cPknBuEGnVsV4A4m5tgebLHaRSZ9';
+
+// 单笔 swap 的交易记录；sell 为卖出 SOL 换 USDC，否则为用 USDC 买入 SOL
+function swapTransaction(
+  signature: string,
+  slot: number,
+  trader: string,
+  side: 'sell' | 'buy',
+  solAmount: string,
+  usdcAmount: string
+): IndexedTransaction {
+  const sol = { mint: SOL, amount: solAmount, decimals: 9 };
+  const usdc = { mint: USDC, amount: usdcAmount, decimals: 6 };
+  const [input, output] = side === 'sell' ? [sol, usdc] : [usdc, sol];
+  return {
+    transaction: { signature, slot, blockTime: null, programs: [], accounts: [], logs: [] },
+    instructions: [],
+    swaps: [
+      {
+        outerIndex: 0,
+        depth: 0,
+        pool: 'pool',
+        trader,
+        counterparty: 'authority',
+        inputMint: input.mint,
+        inputAmount: input.amount,
+        inputUiAmount: '',
+        inputDecimals: input.decimals,
+        inputFrom: 'a',
+        inputTo: 'b',
+        outputMint: output.mint,
+        outputAmount: output.amount,
+        outputUiAmount: '',
+        outputDecimals: output.decimals,
+        outputFrom: 'c',
+        outputTo: 'd',
+      },
+    ],
+    pools: [],
+    liquidityEvents: [],
+    balanceChanges: [],
+  };
+}
+
+function transferTransaction(signature: string, slot: number, owner: string): IndexedTransaction {
+  return {
+    ...swapTransaction(signature, slot, owner, 'buy', '0', '0'),
+    swaps: [],
+    balanceChanges: [
+      {
+        accountIndex: 1,
+        account: 'usdc-account',
+        owner,
+        mint: USDC,
+        decimals: 6,
+        change: '-25000000',
+        uiChange: '-25',
+      },
+    ],
+  };
+}
+
+function block(slot: number) {
+  return { slot, blockhash: `hash-${slot}`, parentSlot: slot - 1, status: 'provisional' as const };
+}
+
+describe('wallet watchlists', () => {
+  test('realized PnL uses the average cost of the tracked position', () => {
+    const position = accumulatePosition([
+      { baseChange: 2000000000n, quoteChange: -300000000n },
+      { baseChange: 1000000000n, quoteChange: -180000000n },
+      // 平均成本 160，卖出 1.5 SOL 收入 255 USDC
+      { baseChange: -1500000000n, quoteChange: 255000000n },
+      // 超出持仓的 0.5 SOL 不计入盈亏
+      { baseChange: -2000000000n, quoteChange: 340000000n },
+    ]);
+
+    expect(position).toEqual({
+      amount: 0n,
+      cost: 0n,
+      realizedPnl: 15000000n + 15000000n,
+      buys: 2,
+      sells: 2,
+      untrackedSold: 500000000n,
+    });
+  });
+
+  test('stores activity for watched wallets and rebuilds positions after retraction', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wallets-'));
+    const storage = new SqliteStorage(path.join(dir, 'indexer.db'));
+    const watchlists = new WalletWatchlists([{ name: 'whales', wallets: [TRADER] }]);
+    const save = (slot: number, record: IndexedTransaction) => {
+      watchlists.annotate(record);
+      storage.saveBlock(block(slot), [record]);
+    };
+
+    try {
+      save(100, swapTransaction('sig-1', 100, TRADER, 'buy', '2000000000', '300000000'));
+      save(101, swapTransaction('sig-2', 101, 'someone-else', 'buy', '1000000000', '150000000'));
+      save(102, transferTransaction('sig-3', 102, TRADER));
+      save(103, swapTransaction('sig-4', 103, TRADER, 'sell', '1000000000', '170000000'));
+
+      const { activity } = storage.queryWalletActivity({ watchlist: 'whales', limit: 10 });
+      expect(activity.map(item => [item.signature, item.type, item.action])).toEqual([
+        ['sig-4', 'swap', 'swap'],
+        ['sig-3', 'transfer', 'out'],
+        ['sig-1', 'swap', 'swap'],
+      ]);
+      expect(activity[2].changes).toEqual([
+        { mint: USDC, change: '-300000000', uiChange: '-300', decimals: 6 },
+        { mint: SOL, change: '2000000000', uiChange: '2', decimals: 9 },
+      ]);
+
+      expect(storage.getWalletPositions(TRADER)).toEqual([
+        {
+          wallet: TRADER,
+          baseMint: SOL,
+          quoteMint: USDC,
+          baseDecimals: 9,
+          quoteDecimals: 6,
+          amount: '1000000000',
+          uiAmount: '1',
+          cost: '150000000',
+          uiCost: '150',
+          averageCost: '150',
+          realizedPnl: '20000000',
+          uiRealizedPnl: '20',
+          buys: 1,
+          sells: 1,
+          untrackedSold: '0',
+          lastSlot: 103,
+        },
+      ]);
+
+      storage.retractSlot(103);
+      expect(storage.getWalletPositions(TRADER)[0]).toMatchObject({
+        amount: '2000000000',
+        realizedPnl: '0',
+        sells: 0,
+        lastSlot: 100,
+      });
+      storage.retractSlot(100);
+      expect(storage.getWalletPositions(TRADER)).toEqual([]);
+    } finally {
+      storage.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('positions written out of slot order match a full rebuild', () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'wallets-'));
+    const storage = new SqliteStorage(path.join(dir, 'indexer.db'));
+    const watchlists = new WalletWatchlists([{ name: 'whales', wallets: [TRADER] }]);
+    const save = (slot: number, records: IndexedTransaction[]) => {
+      records.forEach(record => watchlists.annotate(record));
+      storage.saveBlock(block(slot), records);
+    };
+
+    try {
+      // 历史模式并发处理时，较早的区块可能后写入
+      save(102, [swapTransaction('sig-3', 102, TRADER, 'sell', '1000000000', '170000000')]);
+      save(100, [swapTransaction('sig-1', 100, TRADER, 'buy', '2000000000', '300000000')]);
+      save(103, [
+        swapTransaction('sig-5', 103, TRADER, 'sell', '500000000', '80000000'),
+        swapTransaction('sig-4', 103, TRADER, 'buy', '1000000000', '160000000'),
+      ]);
+
+      // 与按 (slot, signature) 顺序累计的结果一致
+      const expected = accumulatePosition([
+        { baseChange: 2000000000n, quoteChange: -300000000n },
+        { baseChange: -1000000000n, quoteChange: 170000000n },
+        { baseChange: 1000000000n, quoteChange: -160000000n },
+        { baseChange: -500000000n, quoteChange: 80000000n },
+      ]);
+      expect(storage.getWalletPositions(TRADER)[0]).toMatchObject({
+        amount: expected.amount.toString(),
+        cost: expected.cost.toString(),
+        realizedPnl: expected.realizedPnl.toString(),
+        buys: 2,
+        sells: 2,
+        lastSlot: 103,
+      });
+    } finally {
+      storage.close();
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
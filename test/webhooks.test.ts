@@ -0,0 +1,166 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+import { createBlockEvents, EventBus } from '../src/events';
+import { IndexedTransaction, SqliteStorage } from '../src/storage';
+import { WebhookDispatcher } from '../src/webhooks';
+
+const SOL = 'So11111111111111111111111111111111111111112';
+const USDC = 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v';
+
+function swapTransaction(signature: string, trader: string): IndexedTransaction {
+  return {
+    transaction: { signature, slot: 100, blockTime: null, programs: [], accounts: [], logs: [] },
+    instructions: [],
+    swaps: [
+      {
+        outerIndex: 0,
+        depth: 0,
+        pool: 'pool',
+        trader,
+        counterparty: 'authority',
+        inputMint: SOL,
+        inputAmount: '1000000000',
+        inputUiAmount: '1',
+        inputDecimals: 9,
+        inputFrom: 'a',
+        inputTo: 'b',
+        outputMint: USDC,
+        outputAmount: '150000000',
+        outputUiAmount: '150',
+        outputDecimals: 6,
+        outputFrom: 'c',
+        outputTo: 'd',
+      },
+    ],
+    pools: [],
+    liquidityEvents: [],
+    balanceChanges: [],
+  };
+}
+
+interface Received {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+// 按 statuses 依次返回状态码，之后都返回 200
+function startReceiver(
+  statuses: number[]
+): Promise<{ server: http.Server; url: string; received: Received[] }> {
+  const received: Received[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', chunk => (body += chunk));
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.writeHead(statuses.shift() ?? 200);
+      res.end();
+    });
+  });
+  return new Promise(resolve => {
+    server.listen(0, () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({ server, url: `http://127.0.0.1:${port}/hook`, received });
+    });
+  });
+}
+
+async function waitFor(condition: () => boolean) {
+  for (let i = 0; i < 200 && !condition(); i++) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+describe('WebhookDispatcher', () => {
+  let dir: string;
+  let storage: SqliteStorage;
+  let server: http.Server | undefined;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'webhooks-'));
+    storage = new SqliteStorage(path.join(dir, 'indexer.db'));
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    storage.close();
+    fs.rmSync(dir, { recursive: true, force: true });
+    await new Promise(resolve => (server ? server.close(resolve) : resolve(undefined)));
+  });
+
+  test('delivers filtered events with an HMAC signature and retries failures', async () => {
+    const receiver = await startReceiver([500]);
+    server = receiver.server;
+    const events = new EventBus();
+    const dispatcher = new WebhookDispatcher(
+      [{ url: receiver.url, secret: 'secret', filter: { types: ['swap'], wallets: ['alice'] } }],
+      storage,
+      { baseRetryDelay: 10 }
+    );
+    dispatcher.start(events);
+
+    events.publish(createBlockEvents(100, 'provisional', [
+      swapTransaction('sig-1', 'alice'),
+      swapTransaction('sig-2', 'bob'),
+    ]));
+    await waitFor(() => receiver.received.length === 2 && dispatcher.getPendingDeliveries() === 0);
+    dispatcher.stop();
+
+    expect(receiver.received).toHaveLength(2);
+    const { headers, body } = receiver.received[1];
+    const expected = crypto
+      .createHmac('sha256', 'secret')
+      .update(`${headers['x-indexer-timestamp']}.${body}`)
+      .digest('hex');
+    expect(headers['x-indexer-signature']).toBe(`sha256=${expected}`);
+    expect(JSON.parse(body).events).toEqual([
+      expect.objectContaining({ id: 'swap:sig-1:0:-1', type: 'swap', status: 'provisional' }),
+    ]);
+  });
+
+  test('moves deliveries to the dead-letter table after the last attempt', async () => {
+    const receiver = await startReceiver([500, 503]);
+    server = receiver.server;
+    const dispatcher = new WebhookDispatcher(
+      [{ url: receiver.url, filter: {} }],
+      storage,
+      { maxAttempts: 2, baseRetryDelay: 10 }
+    );
+
+    dispatcher.dispatch(createBlockEvents(100, 'final', [swapTransaction('sig-1', 'alice')]));
+    await waitFor(() => storage.queryWebhookDeadLetters(10).length > 0);
+
+    expect(receiver.received).toHaveLength(2);
+    expect(receiver.received[0].headers['x-indexer-signature']).toBeUndefined();
+    const [letter] = storage.queryWebhookDeadLetters(10);
+    expect(letter).toMatchObject({ url: receiver.url, attempts: 2 });
+    expect(JSON.parse(letter.payload).events.map((event: { type: string }) => event.type))
+      .toEqual(['transaction', 'swap']);
+  });
+
+  test('flush waits for queued deliveries and dead-letters them after the timeout', async () => {
+    const receiver = await startReceiver([500, 500, 500]);
+    server = receiver.server;
+    const dispatcher = new WebhookDispatcher(
+      [{ url: receiver.url, filter: {} }],
+      storage,
+      { baseRetryDelay: 200 }
+    );
+    expect(await dispatcher.flush(10)).toBe(true);
+
+    dispatcher.dispatch(createBlockEvents(100, 'final', [swapTransaction('sig-1', 'alice')]));
+    dispatcher.dispatch(createBlockEvents(101, 'final', [swapTransaction('sig-2', 'alice')]));
+    await waitFor(() => receiver.received.length === 1);
+
+    expect(await dispatcher.flush(50)).toBe(false);
+    expect(dispatcher.getPendingDeliveries()).toBe(0);
+    expect(storage.queryWebhookDeadLetters(10).map(letter => letter.error))
+      .toEqual(['shutdown', 'shutdown']);
+  });
+});